@@ -5,9 +5,11 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import type { Session } from '@supabase/supabase-js';
 import { supabase } from './services/supabase';
-import { fetchItemMapping, fetchTimeseries, fetchLatestPrices } from './services/osrsWikiApi';
-import { fetchUserWatchlist, addToWatchlist, removeFromWatchlist, getProfile, fetchUserInvestments, addInvestment, closeInvestment, clearUserInvestments, deleteInvestment } from './services/database';
-import type { Item, TimeseriesData, LatestPrice, Profile, PriceAlert, Investment } from './types';
+import { isAbortError } from './services/requestScheduler';
+import type { PriceProvider } from './services/priceProvider';
+import { fetchUserWatchlist, addToWatchlist, removeFromWatchlist, getProfile, fetchUserInvestments, addInvestment, addInvestments, updateInvestment, sellInvestment, clearUserInvestments, deleteInvestment, fetchUserAlerts, addAlert, updateAlert, claimAlertTrigger, deleteAlert, migrateLocalAlerts, fetchUserAlertTriggers, addAlertTriggers, fetchUserAlertWebhooks, addAlertWebhook, updateAlertWebhook, deleteAlertWebhook } from './services/database';
+import { buildAlertWebhookPayload, dispatchAlertWebhooks, getBrowserAppUrl } from './services/webhooks';
+import type { Item, TimeseriesData, LatestPrice, Profile, PriceAlert, PriceAlertSettings, PriceAlertUpdate, LocalPriceAlert, AlertTrigger, AlertWebhook, AlertWebhookSettings, Investment, InvestmentUpdate, GameMode } from './types';
 import { SearchBar } from './components/SearchBar';
 import { ItemView } from './components/ItemView';
 import { Watchlist } from './components/Watchlist';
@@ -17,24 +19,67 @@ import { ProfileModal } from './components/ProfileModal';
 import { ProfilePage } from './components/ProfilePage';
 import { PortfolioPage } from './components/PortfolioPage';
 import { AddInvestmentModal } from './components/AddInvestmentModal';
-import { PulseIcon, SearchIcon, StarIcon, UserIcon, LogOutIcon, SettingsIcon, UserSquareIcon, BellIcon, LogInIcon, BriefcaseIcon } from './components/icons/Icons';
+import { MarketMoversPage } from './components/MarketMoversPage';
+import { AlchemyPage } from './components/AlchemyPage';
+import { ComparePage } from './components/ComparePage';
+import { PulseIcon, SearchIcon, StarIcon, UserIcon, LogOutIcon, SettingsIcon, UserSquareIcon, BellIcon, LogInIcon, BriefcaseIcon, TrendingUpIcon, CoinsIcon, BarChart2Icon } from './components/icons/Icons';
 import { Loader } from './components/ui/Loader';
 import { Button } from './components/ui/Button';
+import { useAlertMonitor } from './hooks/useAlertMonitor';
+import type { TriggeredAlert } from './hooks/useAlertMonitor';
+import { AlertNotifications } from './components/AlertNotifications';
+import { getCompareHash, parseCompareHash } from './utils/compare';
+import type { LotSale } from './utils/portfolio';
+import type { ImportedInvestment } from './utils/investmentCsv';
+import { LATEST_PRICES_REFRESH_INTERVAL_MS, DEFAULT_GAME_MODE, GAME_MODES, NATURE_RUNE_ITEM_ID } from './constants';
 import { useLocalStorage } from './hooks/useLocalStorage';
 import { TooltipWrapper } from './components/ui/Tooltip';
 
 
-type View = 'search' | 'watchlist' | 'item' | 'profile' | 'alerts' | 'portfolio';
+type View = 'search' | 'market' | 'alchemy' | 'compare' | 'watchlist' | 'item' | 'profile' | 'alerts' | 'portfolio';
 
-export default function App() {
+const LOCAL_ALERTS_STORAGE_KEY = 'priceAlerts';
+
+// Alerts were kept in localStorage before they were synced to the database.
+// Move any that are still there into the user's account, then forget them.
+// The user data effect can run twice at once on sign-in (getSession and the
+// INITIAL_SESSION auth event), so both runs share one migration per user.
+const alertMigrations = new Map<string, Promise<void>>();
+
+const migrateStoredAlerts = (userId: string): Promise<void> => {
+  const inFlight = alertMigrations.get(userId);
+  if (inFlight) return inFlight;
+
+  const migration = (async () => {
+    const storedAlerts = window.localStorage.getItem(LOCAL_ALERTS_STORAGE_KEY);
+    if (!storedAlerts) return;
+    try {
+      const localAlerts: LocalPriceAlert[] = JSON.parse(storedAlerts);
+      await migrateLocalAlerts(userId, localAlerts);
+      window.localStorage.removeItem(LOCAL_ALERTS_STORAGE_KEY);
+    } catch (err) {
+      console.error('Failed to migrate local alerts', err);
+    }
+  })().finally(() => alertMigrations.delete(userId));
+  alertMigrations.set(userId, migration);
+  return migration;
+};
+
+interface AppProps {
+  priceProvider: PriceProvider;
+}
+
+export default function App({ priceProvider }: AppProps) {
   const [currentView, setCurrentView] = useState<View>('search');
   const [items, setItems] = useState<Record<string, Item>>({});
   const [latestPrices, setLatestPrices] = useState<Record<string, LatestPrice>>({});
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
+  const [compareItemIds, setCompareItemIds] = useState<number[]>([]);
   const [timeseries, setTimeseries] = useState<TimeseriesData[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isItemLoading, setIsItemLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [gameMode, setGameMode] = useLocalStorage<GameMode>('gameMode', DEFAULT_GAME_MODE);
 
   // --- Auth and Profile State ---
   const [session, setSession] = useState<Session | null>(null);
@@ -44,16 +89,26 @@ export default function App() {
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const profileMenuRef = useRef<HTMLDivElement>(null);
   const initialRoutingDone = useRef(false);
+  const itemTimeseriesController = useRef<AbortController | null>(null); // Cancels the item chart request in flight
+  const watchlistTimeseriesController = useRef<AbortController | null>(null);
 
 
   // --- Watchlist, Alerts, and Portfolio State ---
   const [watchlist, setWatchlist] = useState<number[]>([]);
-  const [alerts, setAlerts] = useLocalStorage<PriceAlert[]>('priceAlerts', []);
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [alertTriggers, setAlertTriggers] = useState<AlertTrigger[]>([]);
+  const [alertWebhooks, setAlertWebhooks] = useState<AlertWebhook[]>([]);
   const [investments, setInvestments] = useState<Investment[]>([]);
   const [watchlistTimeseries, setWatchlistTimeseries] = useState<Record<string, TimeseriesData[]>>({});
   const [isAddInvestmentModalOpen, setIsAddInvestmentModalOpen] = useState(false);
   const [investmentModalItem, setInvestmentModalItem] = useState<Item | null>(null);
 
+  // Route all price requests to the selected game mode's feed. This must stay
+  // above the data-loading effects so it runs before them.
+  useEffect(() => {
+    priceProvider.setGameMode(gameMode);
+  }, [priceProvider, gameMode]);
+
   // Close profile menu on outside click
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -99,17 +154,25 @@ export default function App() {
     return () => subscription.unsubscribe();
   }, []);
   
-  // --- Fetch User Data (Watchlist, Investments) from DB on Login ---
+  // --- Fetch User Data (Watchlist, Investments, Alerts) from DB on Login ---
   useEffect(() => {
+    let isCancelled = false; // Set if the user or game mode changes while loading
+
     if (session) {
       const loadUserData = async () => {
         try {
-          const [userWatchlist, userInvestments] = await Promise.all([
-            fetchUserWatchlist(session.user.id),
-            fetchUserInvestments(session.user.id)
+          await migrateStoredAlerts(session.user.id);
+          const [userWatchlist, userInvestments, userAlerts, userAlertTriggers] = await Promise.all([
+            fetchUserWatchlist(session.user.id, gameMode),
+            fetchUserInvestments(session.user.id, gameMode),
+            fetchUserAlerts(session.user.id, gameMode),
+            fetchUserAlertTriggers(session.user.id, gameMode)
           ]);
+          if (isCancelled) return;
           setWatchlist(userWatchlist);
           setInvestments(userInvestments);
+          setAlerts(userAlerts);
+          setAlertTriggers(userAlertTriggers);
         } catch (err) {
           console.error("Failed to load user data", err);
         }
@@ -118,10 +181,47 @@ export default function App() {
     } else {
       setWatchlist([]);
       setInvestments([]);
+      setAlerts([]);
+      setAlertTriggers([]);
     }
-  }, [session]);
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [session, gameMode]);
+
+  // --- Fetch Alert Webhooks on Login ---
+  // Webhooks are shared by every game mode, so they only reload when the user changes.
+  const userId = session?.user.id;
+  useEffect(() => {
+    let isCancelled = false;
+
+    if (userId) {
+      fetchUserAlertWebhooks(userId)
+        .then(webhooks => {
+          if (!isCancelled) setAlertWebhooks(webhooks);
+        })
+        .catch(err => console.error('Failed to load alert webhooks', err));
+    } else {
+      setAlertWebhooks([]);
+    }
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [userId]);
 
   // --- Fetch Watchlist Timeseries Data ---
+  // Requests are cancelled when leaving the watchlist. The controller lives in a
+  // ref (rather than the fetch effect below) because that effect re-runs each
+  // time a chart arrives, which must not cancel the rest of the batch.
+  useEffect(() => {
+    if (currentView !== 'watchlist') return;
+    const controller = new AbortController();
+    watchlistTimeseriesController.current = controller;
+    return () => controller.abort();
+  }, [currentView]);
+
   useEffect(() => {
     const fetchWatchlistTimeseries = async () => {
       if (watchlist.length === 0) {
@@ -130,11 +230,19 @@ export default function App() {
       }
 
       const itemsToFetch = watchlist.filter(id => watchlistTimeseries[id] === undefined);
-      if (itemsToFetch.length === 0) return;
+      const signal = watchlistTimeseriesController.current?.signal;
+      if (itemsToFetch.length === 0 || !signal || signal.aborted) return;
 
+      // Identical requests from an earlier run that are still in flight are shared, not repeated.
       const results = await Promise.allSettled(
-        itemsToFetch.map(id => fetchTimeseries(id, '1h'))
+        itemsToFetch.map(id => priceProvider.fetchTimeseries(id, '1h', {
+          signal,
+          onRevalidate: freshData => {
+            setWatchlistTimeseries(prev => ({ ...prev, [id]: freshData.sort((a, b) => a.timestamp - b.timestamp) }));
+          },
+        }))
       );
+      if (signal.aborted) return; // Leave the rest unfetched so they load on the next visit
       
       const newTimeseries: Record<string, TimeseriesData[]> = {};
       results.forEach((result, index) => {
@@ -153,62 +261,158 @@ export default function App() {
     if (currentView === 'watchlist') {
       fetchWatchlistTimeseries();
     }
-  }, [currentView, watchlist, watchlistTimeseries]);
+  }, [priceProvider, currentView, watchlist, watchlistTimeseries]);
 
 
   useEffect(() => {
-    const initializeData = async () => {
-      try {
-        setIsLoading(true);
-        const [itemMapping, prices] = await Promise.all([fetchItemMapping(), fetchLatestPrices()]);
-        
+    // Aborted when the game mode changes so the old mode's data can't land afterwards
+    const controller = new AbortController();
+
+    const applyItemMapping = (itemMapping: Item[]) => {
         const itemMap: Record<string, Item> = {};
         itemMapping.forEach(item => {
             itemMap[item.id] = item;
         });
-        
         setItems(itemMap);
+    };
+
+    const initializeData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [itemMapping, prices] = await Promise.all([
+          priceProvider.fetchItemMapping({ signal: controller.signal, onRevalidate: applyItemMapping }),
+          priceProvider.fetchLatestPrices(controller.signal),
+        ]);
+        applyItemMapping(itemMapping);
         setLatestPrices(prices);
       } catch (err) {
+        if (isAbortError(err)) return;
         setError('Failed to load initial item data. Please try refreshing the page.');
         console.error(err);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) setIsLoading(false);
       }
     };
     initializeData();
-  }, []);
+
+    return () => controller.abort();
+  }, [priceProvider, gameMode]);
+
+  // --- Periodically Refresh Latest Prices (drives price alert evaluation) ---
+  useEffect(() => {
+    if (isLoading) return;
+
+    const controller = new AbortController();
+    const intervalId = window.setInterval(async () => {
+      try {
+        const prices = await priceProvider.fetchLatestPrices(controller.signal);
+        setLatestPrices(prices);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Failed to refresh latest prices', err);
+      }
+    }, LATEST_PRICES_REFRESH_INTERVAL_MS);
+
+    return () => {
+      window.clearInterval(intervalId);
+      controller.abort();
+    };
+  }, [priceProvider, isLoading, gameMode]);
   
   const handleSelectTimedItem = useCallback(async (item: Item, timeStep: '5m' | '1h' | '6h' = '1h') => {
+    // Cancel the request for a previously selected item or time range
+    itemTimeseriesController.current?.abort();
+    const controller = new AbortController();
+    itemTimeseriesController.current = controller;
+
     setIsItemLoading(true);
     setSelectedItem(item);
     setCurrentView('item');
     try {
-      const data = await fetchTimeseries(item.id, timeStep);
+      const data = await priceProvider.fetchTimeseries(item.id, timeStep, {
+        signal: controller.signal,
+        onRevalidate: freshData => setTimeseries(freshData.sort((a, b) => a.timestamp - b.timestamp)),
+      });
       const sortedData = data.sort((a, b) => a.timestamp - b.timestamp);
       setTimeseries(sortedData);
     } catch (err)      {
+      if (isAbortError(err)) return;
       setError(`Failed to load price data for ${item.name}.`);
       console.error(err);
     } finally {
-      setIsItemLoading(false);
+      if (!controller.signal.aborted) setIsItemLoading(false);
     }
-  }, []);
+  }, [priceProvider]);
 
   const handleItemSelection = useCallback((item: Item) => {
     handleSelectTimedItem(item);
   }, [handleSelectTimedItem]);
+
+  const handleAlertsTriggered = useCallback(async (triggered: TriggeredAlert[], triggeredAt: string): Promise<TriggeredAlert[]> => {
+    // The alert worker may have fired some of these already; only the fires claimed here are sent.
+    const claims = await Promise.all(triggered.map(({ alert }) => claimAlertTrigger(alert, triggeredAt).catch(err => {
+      console.error(`Failed to save triggered state for alert ${alert.id}`, err);
+      return null;
+    })));
+    const storedAlerts = new Map<string, PriceAlert | null>();
+    claims.forEach((claim, i) => {
+      if (claim) storedAlerts.set(triggered[i].alert.id, claim.alert);
+    });
+    setAlerts(prev => prev.flatMap(alert => {
+      if (!storedAlerts.has(alert.id)) return [alert];
+      const storedAlert = storedAlerts.get(alert.id);
+      return storedAlert ? [storedAlert] : []; // Deleted elsewhere
+    }));
+
+    const claimed = triggered.filter((_, i) => claims[i]?.claimed);
+    if (claimed.length === 0) return [];
+
+    addAlertTriggers(claimed.map(({ alert, matchedRules, price }) => ({
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      item_id: alert.item_id,
+      game_mode: alert.game_mode,
+      price,
+      matched_rules: matchedRules,
+      triggered_at: triggeredAt,
+    })))
+      .then(newTriggers => setAlertTriggers(prev => [...newTriggers, ...prev]))
+      .catch(err => console.error('Failed to record alert triggers', err));
+
+    if (alertWebhooks.some(webhook => webhook.enabled)) {
+      const appUrl = getBrowserAppUrl();
+      const payloads = claimed.map(({ alert, matchedRules, price }) => buildAlertWebhookPayload({
+        alertId: alert.id,
+        gameMode: alert.game_mode,
+        item: items[alert.item_id] ?? { id: alert.item_id, name: `Item ${alert.item_id}` },
+        price,
+        matchedRules,
+        triggeredAt,
+      }, appUrl));
+      dispatchAlertWebhooks(alertWebhooks, payloads);
+    }
+    return claimed;
+  }, [alertWebhooks, items]);
+
+  const { notifications: alertNotifications, dismissNotification } = useAlertMonitor(priceProvider, alerts, latestPrices, items, handleAlertsTriggered, handleItemSelection);
   
   // --- Initial Hash-based Routing ---
   useEffect(() => {
     // This effect runs once on page load after the initial data is fetched.
-    // It checks for a URL hash like '#/item/123' to deep-link to an item.
+    // It checks for a URL hash like '#/item/123' to deep-link to an item,
+    // or '#/compare?ids=123,456' to open the compare page with those items.
     if (isLoading || Object.keys(items).length === 0 || initialRoutingDone.current) {
         return;
     }
 
     const hash = window.location.hash;
-    if (hash.startsWith('#/item/')) {
+    const compareIds = parseCompareHash(hash);
+    if (compareIds) {
+        initialRoutingDone.current = true;
+        setCompareItemIds(compareIds.filter(id => items[id]));
+        setCurrentView('compare');
+    } else if (hash.startsWith('#/item/')) {
         initialRoutingDone.current = true; // Mark as done to prevent re-routing on state changes
         const itemIdStr = hash.substring('#/item/'.length);
         const itemId = parseInt(itemIdStr, 10);
@@ -221,10 +425,23 @@ export default function App() {
     }
   }, [items, isLoading, handleItemSelection]);
 
+  // Keep the compare page's items in the URL so it can be bookmarked or shared.
+  useEffect(() => {
+    if (!initialRoutingDone.current) return;
+    const url = `${window.location.pathname}${window.location.search}`;
+    if (currentView === 'compare') {
+        window.history.replaceState(null, '', `${url}${getCompareHash(compareItemIds)}`);
+    } else if (parseCompareHash(window.location.hash)) {
+        window.history.replaceState(null, '', url);
+    }
+  }, [currentView, compareItemIds]);
+
   const switchView = (view: View) => {
     setCurrentView(view);
     // Clear item-specific state when navigating to a list view
     if (view !== 'item') {
+        itemTimeseriesController.current?.abort();
+        setIsItemLoading(false);
         setSelectedItem(null);
         setTimeseries([]);
     }
@@ -253,19 +470,19 @@ export default function App() {
     if (isWatched) {
       setWatchlist(prev => prev.filter(id => id !== itemId));
       try {
-        await removeFromWatchlist(userId, itemId);
+        await removeFromWatchlist(userId, itemId, gameMode);
       } catch (err) {
         setWatchlist(prev => [...prev, itemId]);
       }
     } else {
       setWatchlist(prev => [...prev, itemId]);
       try {
-        await addToWatchlist(userId, itemId);
+        await addToWatchlist(userId, itemId, gameMode);
       } catch (err) {
         setWatchlist(prev => prev.filter(id => id !== itemId));
       }
     }
-  }, [session, profile, watchlist]);
+  }, [session, profile, watchlist, gameMode]);
   
   const watchlistItems = useMemo(() => {
     return watchlist.map(id => items[id]).filter(Boolean);
@@ -277,6 +494,21 @@ export default function App() {
     switchView('search');
   };
 
+  const handleGameModeChange = (mode: GameMode) => {
+    if (mode === gameMode) return;
+    // Drop everything loaded for the previous mode straight away, so e.g. its
+    // alerts are never evaluated against the new mode's prices.
+    switchView('search');
+    setItems({});
+    setLatestPrices({});
+    setWatchlist([]);
+    setWatchlistTimeseries({});
+    setInvestments([]);
+    setAlerts([]);
+    setAlertTriggers([]);
+    setGameMode(mode);
+  };
+
   const handleProfileUpdate = (updatedProfile: Profile) => {
     setProfile(updatedProfile);
   };
@@ -290,20 +522,44 @@ export default function App() {
     setIsAddInvestmentModalOpen(true);
   };
 
-  const handleSaveInvestment = async (investmentData: Omit<Investment, 'id' | 'user_id' | 'created_at'>) => {
+  const handleSaveInvestment = async (investmentData: Omit<Investment, 'id' | 'user_id' | 'game_mode' | 'parent_id' | 'created_at'>) => {
     if (!session) throw new Error("User not authenticated");
-    const newInvestment = await addInvestment({ ...investmentData, user_id: session.user.id });
+    const newInvestment = await addInvestment({ ...investmentData, user_id: session.user.id, game_mode: gameMode });
     setInvestments(prev => [newInvestment, ...prev]);
   };
 
-  const handleCloseInvestment = async (investmentId: string, sellData: { sell_price: number; sell_date: string; tax_paid: number; }) => {
-    const updatedInvestment = await closeInvestment(investmentId, sellData);
+  const handleImportInvestments = async (importedInvestments: ImportedInvestment[]) => {
+    if (!session) throw new Error("User not authenticated");
+    try {
+      await addInvestments(importedInvestments.map(inv => ({ ...inv, user_id: session.user.id, game_mode: gameMode })));
+    } finally {
+      // Reload rather than merge, so batches saved before a failure still show up in date order.
+      // A failed reload is only logged, so the wizard still shows how the import itself went.
+      await fetchUserInvestments(session.user.id, gameMode)
+        .then(setInvestments)
+        .catch(err => console.error('Failed to reload investments after import', err));
+    }
+  };
+
+  const handleUpdateInvestment = async (investmentId: string, updates: InvestmentUpdate) => {
+    const updatedInvestment = await updateInvestment(investmentId, updates);
     setInvestments(prev => prev.map(inv => inv.id === investmentId ? updatedInvestment : inv));
   };
 
+  const handleSellInvestment = async (lotSales: LotSale[]) => {
+    // Lots are sold one at a time so each saved part shows up even if a later one fails.
+    for (const { investment, sale } of lotSales) {
+      const { sold, remaining } = await sellInvestment(investment, sale);
+      setInvestments(prev => prev.flatMap(inv => {
+        if (inv.id !== investment.id) return [inv];
+        return remaining ? [remaining, sold] : [sold];
+      }));
+    }
+  };
+
   const handleClearPortfolio = async () => {
     if (!session) throw new Error("User not authenticated");
-    await clearUserInvestments(session.user.id);
+    await clearUserInvestments(session.user.id, gameMode);
     setInvestments([]);
   };
 
@@ -313,6 +569,42 @@ export default function App() {
     setInvestments(prev => prev.filter(inv => inv.id !== investmentId));
   };
 
+  const handleAddAlert = async (itemId: number, settings: PriceAlertSettings): Promise<PriceAlert | null> => {
+    if (!session) {
+      setIsAuthModalOpen(true);
+      return null;
+    }
+    const newAlert = await addAlert({ ...settings, user_id: session.user.id, item_id: itemId, game_mode: gameMode });
+    setAlerts(prev => [newAlert, ...prev]);
+    return newAlert;
+  };
+
+  const handleUpdateAlert = async (alertId: string, updates: PriceAlertUpdate) => {
+    const updatedAlert = await updateAlert(alertId, updates);
+    setAlerts(prev => prev.map(alert => alert.id === alertId ? updatedAlert : alert));
+  };
+
+  const handleDeleteAlert = async (alertId: string) => {
+    await deleteAlert(alertId);
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  };
+
+  const handleAddAlertWebhook = async (settings: AlertWebhookSettings) => {
+    if (!session) throw new Error("User not authenticated");
+    const newWebhook = await addAlertWebhook(session.user.id, settings);
+    setAlertWebhooks(prev => [...prev, newWebhook]);
+  };
+
+  const handleUpdateAlertWebhook = async (webhookId: string, updates: Partial<AlertWebhookSettings>) => {
+    const updatedWebhook = await updateAlertWebhook(webhookId, updates);
+    setAlertWebhooks(prev => prev.map(webhook => webhook.id === webhookId ? updatedWebhook : webhook));
+  };
+
+  const handleDeleteAlertWebhook = async (webhookId: string) => {
+    await deleteAlertWebhook(webhookId);
+    setAlertWebhooks(prev => prev.filter(webhook => webhook.id !== webhookId));
+  };
+
   const getNavButtonClasses = (viewName: View, disabled = false) => {
     const base = 'flex items-center justify-center md:justify-start md:gap-3 p-3 md:px-4 md:py-2 rounded-lg transition-colors w-full text-left';
     if (disabled) {
@@ -337,8 +629,10 @@ export default function App() {
         if (!selectedItem) return null;
         return (
           <ItemView
+            userId={session?.user.id ?? null}
             item={selectedItem}
             latestPrice={latestPrices[selectedItem.id]}
+            natureRunePrice={latestPrices[NATURE_RUNE_ITEM_ID]?.high ?? null}
             timeseriesData={timeseries}
             isLoading={isItemLoading}
             onBack={handleBack}
@@ -346,12 +640,38 @@ export default function App() {
             watchlist={watchlist}
             toggleWatchlist={toggleWatchlist}
             alerts={alerts}
-            setAlerts={setAlerts}
+            alertTriggers={alertTriggers}
+            onAddAlert={handleAddAlert}
+            onUpdateAlert={handleUpdateAlert}
+            onDeleteAlert={handleDeleteAlert}
             onOpenAddInvestmentModal={handleOpenAddInvestmentModal}
           />
         );
       case 'search':
         return <SearchBar items={Object.values(items)} onSelectItem={handleItemSelection} latestPrices={latestPrices} />;
+      case 'market':
+        return <MarketMoversPage
+                 priceProvider={priceProvider}
+                 items={items}
+                 latestPrices={latestPrices}
+                 onSelectItem={handleItemSelection}
+               />;
+      case 'alchemy':
+        return <AlchemyPage
+                 priceProvider={priceProvider}
+                 items={items}
+                 latestPrices={latestPrices}
+                 onSelectItem={handleItemSelection}
+               />;
+      case 'compare':
+        return <ComparePage
+                 priceProvider={priceProvider}
+                 items={items}
+                 latestPrices={latestPrices}
+                 itemIds={compareItemIds}
+                 onItemIdsChange={setCompareItemIds}
+                 onSelectItem={handleItemSelection}
+               />;
       case 'watchlist':
         return <Watchlist 
                   items={watchlistItems} 
@@ -362,17 +682,22 @@ export default function App() {
       case 'alerts':
         return <AlertsPage
                  alerts={alerts}
-                 setAlerts={setAlerts}
+                 alertTriggers={alertTriggers}
+                 onUpdateAlert={handleUpdateAlert}
+                 onDeleteAlert={handleDeleteAlert}
                  items={items}
                  latestPrices={latestPrices}
                  onSelectItem={handleItemSelection}
                />;
       case 'portfolio':
         return <PortfolioPage 
+                  priceProvider={priceProvider}
                   investments={investments}
                   items={items}
                   latestPrices={latestPrices}
-                  onCloseInvestment={handleCloseInvestment}
+                  onImportInvestments={handleImportInvestments}
+                  onUpdateInvestment={handleUpdateInvestment}
+                  onSellInvestment={handleSellInvestment}
                   onClearPortfolio={handleClearPortfolio}
                   onDeleteInvestment={handleDeleteInvestment}
                 />;
@@ -403,6 +728,10 @@ export default function App() {
             profile={profile}
             onClose={() => setIsProfileModalOpen(false)}
             onProfileUpdate={handleProfileUpdate}
+            alertWebhooks={alertWebhooks}
+            onAddWebhook={handleAddAlertWebhook}
+            onUpdateWebhook={handleUpdateAlertWebhook}
+            onDeleteWebhook={handleDeleteAlertWebhook}
         />
       )}
       {isAddInvestmentModalOpen && investmentModalItem && (
@@ -413,11 +742,22 @@ export default function App() {
           onSave={handleSaveInvestment}
         />
       )}
+      <AlertNotifications
+        notifications={alertNotifications}
+        items={items}
+        onSelectItem={handleItemSelection}
+        onDismiss={dismissNotification}
+      />
       <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col md:flex-row">
         <header className="md:w-64 bg-gray-800/50 backdrop-blur-sm p-4 md:p-6 md:h-screen md:flex md:flex-col md:border-r md:border-gray-700/50 sticky top-0 md:static z-20">
           <div className="flex items-center gap-3 mb-8">
             <PulseIcon className="w-8 h-8 text-emerald-400" />
             <h1 className="text-2xl font-bold text-white tracking-tighter hidden md:block">GE Pulse</h1>
+            {priceProvider.id !== 'wiki' && (
+              <span className="text-xs font-semibold text-yellow-300 bg-yellow-500/20 border border-yellow-500/50 rounded-md px-2 py-0.5" title="Prices are served from recorded snapshots">
+                {priceProvider.label}
+              </span>
+            )}
           </div>
           <nav className="flex md:flex-col gap-2">
             <button
@@ -427,6 +767,27 @@ export default function App() {
               <SearchIcon className="w-5 h-5" />
               <span className="font-medium hidden md:inline">Search</span>
             </button>
+            <button
+              onClick={() => switchView('market')}
+              className={getNavButtonClasses('market')}
+            >
+              <TrendingUpIcon className="w-5 h-5" />
+              <span className="font-medium hidden md:inline">Market</span>
+            </button>
+            <button
+              onClick={() => switchView('alchemy')}
+              className={getNavButtonClasses('alchemy')}
+            >
+              <CoinsIcon className="w-5 h-5" />
+              <span className="font-medium hidden md:inline">High Alch</span>
+            </button>
+            <button
+              onClick={() => switchView('compare')}
+              className={getNavButtonClasses('compare')}
+            >
+              <BarChart2Icon className="w-5 h-5" />
+              <span className="font-medium hidden md:inline">Compare</span>
+            </button>
             <TooltipWrapper text="Login to use your Watchlist" show={!session}>
               <button
                 onClick={() => switchView('watchlist')}
@@ -458,6 +819,20 @@ export default function App() {
               </button>
             </TooltipWrapper>
           </nav>
+
+          <div className="mt-4 md:mt-6">
+            <label htmlFor="game-mode" className="hidden md:block text-xs font-medium text-gray-400 mb-1">Game Mode</label>
+            <select
+              id="game-mode"
+              value={gameMode}
+              onChange={(e) => handleGameModeChange(e.target.value as GameMode)}
+              className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+            >
+              {GAME_MODES.map(mode => (
+                <option key={mode.id} value={mode.id}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
           
           <div className="md:mt-auto pt-4 border-t border-gray-700/50 relative" ref={profileMenuRef}>
             {session && profile ? (
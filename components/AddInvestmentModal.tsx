@@ -3,23 +3,44 @@ import type { Item, LatestPrice, Investment } from '../types';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon } from './icons/Icons';
-import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice, calculateGeTax } from '../utils/image';
 
 interface AddInvestmentModalProps {
   item: Item;
   latestPrice: LatestPrice;
+  investment?: Investment; // Edits this investment instead of adding a new one
   onClose: () => void;
-  onSave: (investmentData: Omit<Investment, 'id' | 'user_id' | 'created_at'>) => Promise<void>;
+  onSave: (investmentData: Omit<Investment, 'id' | 'user_id' | 'game_mode' | 'parent_id' | 'created_at'>) => Promise<void>;
 }
 
-export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, latestPrice, onClose, onSave }) => {
-  const [quantity, setQuantity] = useState('1');
-  const [price, setPrice] = useState((latestPrice?.high ?? item.value).toString());
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+const toDateInput = (isoDate: string) => isoDate.split('T')[0];
+
+// Keeps the stored time of day when the date wasn't changed.
+const fromDateInput = (date: string, originalIsoDate: string | null | undefined) => {
+  return originalIsoDate && toDateInput(originalIsoDate) === date ? originalIsoDate : new Date(date).toISOString();
+};
+
+export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, latestPrice, investment, onClose, onSave }) => {
+  const isEditing = !!investment;
+  const isClosed = investment?.sell_price != null;
+  const [quantity, setQuantity] = useState(investment ? investment.quantity.toString() : '1');
+  const [price, setPrice] = useState((investment?.purchase_price ?? latestPrice?.high ?? item.value).toString());
+  const [date, setDate] = useState(investment ? toDateInput(investment.purchase_date) : new Date().toISOString().split('T')[0]);
+  const [sellPrice, setSellPrice] = useState(investment?.sell_price?.toString() ?? '');
+  const [sellDate, setSellDate] = useState(investment?.sell_date ? toDateInput(investment.sell_date) : '');
+  const [tax, setTax] = useState(investment?.tax_paid?.toString() ?? '0');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   const parsedPrice = useMemo(() => parseShorthandPrice(price), [price]);
+  const parsedSellPrice = useMemo(() => parseShorthandPrice(sellPrice), [sellPrice]);
+  const parsedTax = useMemo(() => parseShorthandPrice(tax), [tax]);
+
+  const handleRecalculateTax = () => {
+    const numQuantity = parseInt(quantity, 10);
+    if (isNaN(numQuantity) || isNaN(parsedSellPrice)) return;
+    setTax(calculateGeTax(item.name, parsedSellPrice, numQuantity).toString());
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,16 +65,33 @@ export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, la
         setLoading(false);
         return;
     }
+    if (isClosed) {
+      if (isNaN(parsedSellPrice) || parsedSellPrice <= 0) {
+        setError('Sell price must be a positive number. You can use "k" for thousands and "m" for millions.');
+        setLoading(false);
+        return;
+      }
+      if (!sellDate) {
+        setError('Please select a valid sell date.');
+        setLoading(false);
+        return;
+      }
+      if (isNaN(parsedTax) || parsedTax < 0) {
+        setError('Tax must be zero or a positive number.');
+        setLoading(false);
+        return;
+      }
+    }
 
     try {
       await onSave({
         item_id: item.id,
         quantity: numQuantity,
         purchase_price: numPrice,
-        purchase_date: new Date(date).toISOString(),
-        sell_price: null,
-        sell_date: null,
-        tax_paid: null,
+        purchase_date: fromDateInput(date, investment?.purchase_date),
+        sell_price: isClosed ? parsedSellPrice : null,
+        sell_date: isClosed ? fromDateInput(sellDate, investment?.sell_date) : null,
+        tax_paid: isClosed ? parsedTax : null,
       });
       onClose();
     } catch (err: any) {
@@ -86,7 +124,7 @@ export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, la
                 className="w-12 h-12 object-contain bg-gray-700/50 rounded-md"
             />
             <div>
-                <h2 className="text-xl font-bold text-white">Add to Portfolio</h2>
+                <h2 className="text-xl font-bold text-white">{isEditing ? 'Edit Investment' : 'Add to Portfolio'}</h2>
                 <p className="text-gray-300">{item.name}</p>
             </div>
         </div>
@@ -138,8 +176,56 @@ export const AddInvestmentModal: React.FC<AddInvestmentModalProps> = ({ item, la
               className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
             />
           </div>
+          {isClosed && (
+            <>
+              <div>
+                <label htmlFor="edit-sell-price" className="block text-sm font-medium text-gray-300 mb-1">Sell Price (each)</label>
+                <input
+                  id="edit-sell-price"
+                  type="text"
+                  placeholder="e.g., 120k or 3.5m"
+                  value={sellPrice}
+                  onChange={(e) => setSellPrice(e.target.value)}
+                  required
+                  className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+                />
+                {sellPrice && !isNaN(parsedSellPrice) && (
+                    <p className="text-xs text-gray-400 mt-1">
+                        Parsed value: {parsedSellPrice.toLocaleString()} gp
+                    </p>
+                )}
+              </div>
+              <div>
+                <label htmlFor="edit-sell-date" className="block text-sm font-medium text-gray-300 mb-1">Sell Date</label>
+                <input
+                  id="edit-sell-date"
+                  type="date"
+                  value={sellDate}
+                  onChange={(e) => setSellDate(e.target.value)}
+                  required
+                  className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+                />
+              </div>
+              <div>
+                <div className="flex justify-between items-center mb-1">
+                  <label htmlFor="edit-tax" className="block text-sm font-medium text-gray-300">GE Tax Paid (total)</label>
+                  <button type="button" onClick={handleRecalculateTax} className="text-xs text-emerald-400 hover:text-emerald-300">
+                    Recalculate
+                  </button>
+                </div>
+                <input
+                  id="edit-tax"
+                  type="text"
+                  value={tax}
+                  onChange={(e) => setTax(e.target.value)}
+                  required
+                  className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+                />
+              </div>
+            </>
+          )}
           <Button type="submit" variant="primary" size="lg" className="w-full mt-2" disabled={loading}>
-            {loading ? <Loader size="sm" /> : 'Add Investment'}
+            {loading ? <Loader size="sm" /> : isEditing ? 'Save Changes' : 'Add Investment'}
           </Button>
         </form>
       </div>
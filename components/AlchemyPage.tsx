@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Item, LatestPrice, MarketSnapshot } from '../types';
+import type { PriceProvider } from '../services/priceProvider';
+import { isAbortError } from '../services/requestScheduler';
+import { calculateAlchProfit } from '../utils/alchemy';
+import type { AlchProfit } from '../utils/alchemy';
+import type { MembershipFilter } from '../utils/market';
+import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { NATURE_RUNE_ITEM_ID } from '../constants';
+import { Card } from './ui/Card';
+import { Loader } from './ui/Loader';
+
+interface AlchemyPageProps {
+  priceProvider: PriceProvider;
+  items: Record<string, Item>;
+  latestPrices: Record<string, LatestPrice>;
+  onSelectItem: (item: Item) => void;
+}
+
+type SortKey = 'profit' | 'profitPerHour' | 'roi' | 'volume';
+
+interface AlchRow {
+  item: Item;
+  alch: AlchProfit;
+  volume: number | null; // Units traded in the last hour, if the snapshot loaded
+}
+
+// The filter inputs as typed, so partial values survive re-renders.
+interface FilterInputs {
+  membership: MembershipFilter;
+  minVolume: string;
+  minProfit: string;
+}
+
+const MAX_ROWS = 100;
+
+const SORT_LABELS: Record<SortKey, string> = {
+  profit: 'Profit / cast',
+  profitPerHour: 'Profit / hour',
+  roi: 'ROI',
+  volume: 'Volume (1h)',
+};
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+const getSortValue = (row: AlchRow, sortKey: SortKey): number => {
+  switch (sortKey) {
+    case 'profit': return row.alch.profit;
+    case 'profitPerHour': return row.alch.profitPerHour;
+    case 'roi': return row.alch.roiPercent;
+    case 'volume': return row.volume ?? -1;
+  }
+};
+
+const SortHeader: React.FC<{ column: SortKey; sortKey: SortKey; onSort: (column: SortKey) => void }> = ({ column, sortKey, onSort }) => (
+  <th className="px-3 py-2 text-right">
+    <button
+      onClick={() => onSort(column)}
+      className={`font-semibold ${sortKey === column ? 'text-emerald-300' : 'text-gray-400 hover:text-white'}`}
+    >
+      {SORT_LABELS[column]}{sortKey === column && ' ▼'}
+    </button>
+  </th>
+);
+
+const ProfitCell: React.FC<{ value: number }> = ({ value }) => {
+  const colorClass = value > 0 ? 'text-emerald-400' : value < 0 ? 'text-red-400' : 'text-gray-400';
+  return <span className={colorClass}>{Math.round(value).toLocaleString()}</span>;
+};
+
+export const AlchemyPage: React.FC<AlchemyPageProps> = ({ priceProvider, items, latestPrices, onSelectItem }) => {
+  const [sortKey, setSortKey] = useLocalStorage<SortKey>('alchemySort', 'profitPerHour');
+  const [filterInputs, setFilterInputs] = useLocalStorage<FilterInputs>('alchemyFilters', {
+    membership: 'all',
+    minVolume: '',
+    minProfit: '1',
+  });
+  const [snapshot, setSnapshot] = useState<MarketSnapshot | null>(null);
+  const [isSnapshotLoading, setIsSnapshotLoading] = useState(true);
+
+  // Hourly volumes are a nice-to-have; the ranking works without them.
+  useEffect(() => {
+    const controller = new AbortController();
+    priceProvider.fetchMarketSnapshot('1h', { signal: controller.signal })
+      .then(setSnapshot)
+      .catch(err => {
+        if (!isAbortError(err)) console.error('Failed to load hourly volumes', err);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSnapshotLoading(false);
+      });
+    return () => controller.abort();
+  }, [priceProvider]);
+
+  const natureRunePrice = latestPrices[NATURE_RUNE_ITEM_ID]?.high;
+
+  const rows = useMemo(() => {
+    const minVolume = parseShorthandPrice(filterInputs.minVolume);
+    const minProfit = parseShorthandPrice(filterInputs.minProfit);
+
+    const allRows: AlchRow[] = [];
+    Object.values(items).forEach(item => {
+      const alch = calculateAlchProfit(item, latestPrices[item.id], natureRunePrice);
+      if (!alch) return;
+      const snapshotPrice = snapshot?.prices[item.id];
+      const volume = snapshot ? (snapshotPrice ? snapshotPrice.highPriceVolume + snapshotPrice.lowPriceVolume : 0) : null;
+
+      if (filterInputs.membership === 'members' && !item.members) return;
+      if (filterInputs.membership === 'f2p' && item.members) return;
+      if (!isNaN(minVolume) && volume !== null && volume < minVolume) return;
+      if (!isNaN(minProfit) && alch.profit < minProfit) return;
+      allRows.push({ item, alch, volume });
+    });
+
+    return allRows
+      .sort((a, b) => getSortValue(b, sortKey) - getSortValue(a, sortKey))
+      .slice(0, MAX_ROWS);
+  }, [items, latestPrices, natureRunePrice, snapshot, filterInputs, sortKey]);
+
+  const updateFilter = <K extends keyof FilterInputs>(key: K, value: FilterInputs[K]) => {
+    setFilterInputs(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold text-white">High Alchemy</h2>
+        <p className="text-sm text-gray-400">
+          Profit from buying at the instant-buy price and casting High Level Alchemy, with Nature runes at{' '}
+          {natureRunePrice ? `${natureRunePrice.toLocaleString()} gp` : 'N/A'}. Hourly profit assumes buying the full 4-hour limit.
+        </p>
+      </div>
+
+      <Card className="mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="alch-membership" className="block text-xs font-medium text-gray-400 mb-1">Items</label>
+            <select
+              id="alch-membership"
+              value={filterInputs.membership}
+              onChange={(e) => updateFilter('membership', e.target.value as MembershipFilter)}
+              className={inputClasses}
+            >
+              <option value="all">All items</option>
+              <option value="members">Members</option>
+              <option value="f2p">Free-to-play</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="alch-min-volume" className="block text-xs font-medium text-gray-400 mb-1">Min volume (1h)</label>
+            <input
+              id="alch-min-volume"
+              type="text"
+              placeholder="Any"
+              value={filterInputs.minVolume}
+              onChange={(e) => updateFilter('minVolume', e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="alch-min-profit" className="block text-xs font-medium text-gray-400 mb-1">Min profit / cast</label>
+            <input
+              id="alch-min-profit"
+              type="text"
+              placeholder="Any"
+              value={filterInputs.minProfit}
+              onChange={(e) => updateFilter('minProfit', e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {!natureRunePrice ? (
+        <div className="text-center text-gray-400 mt-8">The Nature rune price isn't available, so alch profits can't be calculated.</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center text-gray-400 mt-8">No items match the current filters.</div>
+      ) : (
+        <Card className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="border-b border-gray-700/50">
+              <tr>
+                <th className="px-3 py-2 text-left text-gray-400 font-semibold">Item</th>
+                <th className="px-3 py-2 text-right text-gray-400 font-semibold">Buy price</th>
+                <th className="px-3 py-2 text-right text-gray-400 font-semibold">High alch</th>
+                <SortHeader column="profit" sortKey={sortKey} onSort={setSortKey} />
+                <SortHeader column="roi" sortKey={sortKey} onSort={setSortKey} />
+                <th className="px-3 py-2 text-right text-gray-400 font-semibold">Limit</th>
+                <SortHeader column="profitPerHour" sortKey={sortKey} onSort={setSortKey} />
+                <SortHeader column="volume" sortKey={sortKey} onSort={setSortKey} />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ item, alch, volume }) => (
+                <tr
+                  key={item.id}
+                  onClick={() => onSelectItem(item)}
+                  className="border-b border-gray-700/30 last:border-0 hover:bg-gray-700/50 cursor-pointer transition-colors"
+                >
+                  <td className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <img
+                        src={getHighResImageUrl(item.name)}
+                        onError={(e) => {
+                          e.currentTarget.onerror = null;
+                          e.currentTarget.src = createIconDataUrl(item.icon);
+                        }}
+                        alt={item.name}
+                        className="w-6 h-6 object-contain"
+                      />
+                      <span className="font-semibold text-white">{item.name}</span>
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">{alch.buyPrice.toLocaleString()}</td>
+                  <td className="px-3 py-2 text-right">{item.highalch.toLocaleString()}</td>
+                  <td className="px-3 py-2 text-right"><ProfitCell value={alch.profit} /></td>
+                  <td className="px-3 py-2 text-right">{alch.roiPercent.toFixed(1)}%</td>
+                  <td className="px-3 py-2 text-right text-gray-400">{item.limit > 0 ? item.limit.toLocaleString() : '?'}</td>
+                  <td className="px-3 py-2 text-right"><ProfitCell value={alch.profitPerHour} /></td>
+                  <td className="px-3 py-2 text-right text-gray-400">
+                    {volume !== null ? volume.toLocaleString() : isSnapshotLoading ? <Loader size="sm" /> : 'N/A'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+      )}
+    </div>
+  );
+};
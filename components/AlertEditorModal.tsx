@@ -0,0 +1,296 @@
+import React, { useState } from 'react';
+import type { Item, LatestPrice, PriceAlert, PriceAlertSettings, AlertRule, AlertPriceType, PercentChangeRule } from '../types';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { XIcon, Trash2Icon } from './icons/Icons';
+import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice, calculateTaxAdjustedMargin } from '../utils/image';
+import { describeAlertRule, getPriceTypeLabel } from '../utils/alerts';
+
+interface AlertEditorModalProps {
+  item: Item;
+  latestPrice: LatestPrice | undefined;
+  alert?: PriceAlert; // When provided, the modal edits this alert instead of creating a new one
+  onClose: () => void;
+  onSave: (settings: PriceAlertSettings) => Promise<void>;
+}
+
+// Form state for a single rule. Every field is kept regardless of the selected
+// type so switching types back and forth doesn't lose what the user typed.
+interface RuleDraft {
+  type: AlertRule['type'];
+  condition: 'above' | 'below';
+  priceType: AlertPriceType;
+  price: string; // Target price for price rules, threshold for margin rules
+  direction: PercentChangeRule['direction'];
+  percent: string;
+  windowHours: number;
+  multiplier: string;
+  lookbackHours: string;
+}
+
+const ruleTypeLabels: Record<AlertRule['type'], string> = {
+  price: 'Price',
+  percent_change: '% change',
+  margin: 'Margin',
+  volume_spike: 'Volume spike',
+};
+
+const windowOptions = [1, 6, 24, 168];
+
+const createDraft = (defaultPrice: number, rule?: AlertRule): RuleDraft => ({
+  type: rule?.type ?? 'price',
+  condition: rule && (rule.type === 'price' || rule.type === 'margin') ? rule.condition : 'below',
+  priceType: rule && (rule.type === 'price' || rule.type === 'percent_change') ? rule.price_type : 'high',
+  price: (rule?.type === 'price' ? rule.target_price : rule?.type === 'margin' ? rule.margin : defaultPrice).toString(),
+  direction: rule?.type === 'percent_change' ? rule.direction : 'either',
+  percent: rule?.type === 'percent_change' ? rule.percent.toString() : '5',
+  windowHours: rule?.type === 'percent_change' ? rule.window_hours : 24,
+  multiplier: rule?.type === 'volume_spike' ? rule.multiplier.toString() : '3',
+  lookbackHours: rule?.type === 'volume_spike' ? rule.lookback_hours.toString() : '24',
+});
+
+/**
+ * Converts a draft into a rule.
+ * @returns The rule, or an error message if the draft is invalid.
+ */
+const draftToRule = (draft: RuleDraft): AlertRule | string => {
+  switch (draft.type) {
+    case 'price': {
+      const targetPrice = parseShorthandPrice(draft.price);
+      if (isNaN(targetPrice) || targetPrice <= 0) {
+        return 'Target price must be a positive number. You can use "k" for thousands and "m" for millions.';
+      }
+      return { type: 'price', condition: draft.condition, target_price: targetPrice, price_type: draft.priceType };
+    }
+    case 'percent_change': {
+      const percent = parseFloat(draft.percent);
+      if (isNaN(percent) || percent <= 0) return 'Percent change must be a positive number.';
+      return { type: 'percent_change', direction: draft.direction, percent, window_hours: draft.windowHours, price_type: draft.priceType };
+    }
+    case 'margin': {
+      // Margins can legitimately be negative, so allow a leading minus sign.
+      const isNegative = draft.price.trim().startsWith('-');
+      const margin = parseShorthandPrice(draft.price.trim().replace(/^-/, ''));
+      if (isNaN(margin)) return 'Margin must be a number. You can use "k" for thousands and "m" for millions.';
+      return { type: 'margin', condition: draft.condition, margin: isNegative ? -margin : margin };
+    }
+    case 'volume_spike': {
+      const multiplier = parseFloat(draft.multiplier);
+      const lookbackHours = parseInt(draft.lookbackHours, 10);
+      if (isNaN(multiplier) || multiplier <= 1) return 'Volume multiplier must be greater than 1.';
+      if (isNaN(lookbackHours) || lookbackHours < 2) return 'Volume lookback must be at least 2 hours.';
+      return { type: 'volume_spike', multiplier, lookback_hours: lookbackHours };
+    }
+  }
+};
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+export const AlertEditorModal: React.FC<AlertEditorModalProps> = ({ item, latestPrice, alert, onClose, onSave }) => {
+  const defaultPrice = latestPrice?.high ?? item.value;
+  const [drafts, setDrafts] = useState<RuleDraft[]>(() =>
+    alert && alert.rules.length > 0 ? alert.rules.map(rule => createDraft(defaultPrice, rule)) : [createDraft(defaultPrice)]
+  );
+  const [match, setMatch] = useState<PriceAlert['match']>(alert?.match ?? 'all');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isEditing = alert !== undefined;
+  const currentMargin = calculateTaxAdjustedMargin(item.name, latestPrice);
+
+  const updateDraft = (index: number, changes: Partial<RuleDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+
+    const rules: AlertRule[] = [];
+    for (const draft of drafts) {
+      const rule = draftToRule(draft);
+      if (typeof rule === 'string') {
+        setError(rule);
+        setLoading(false);
+        return;
+      }
+      rules.push(rule);
+    }
+    if (rules.length === 0) {
+      setError('Add at least one rule.');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      await onSave({ rules, match });
+      onClose();
+    } catch (err: any) {
+      setError(err.error_description || err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getToggleClasses = (isActive: boolean) =>
+    `flex-1 px-3 py-2 text-sm rounded-md transition-colors ${
+      isActive ? 'bg-emerald-600 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+    }`;
+
+  const renderRuleFields = (draft: RuleDraft, index: number) => {
+    const priceTypeSelect = (
+      <select value={draft.priceType} onChange={(e) => updateDraft(index, { priceType: e.target.value as AlertPriceType })} className={inputClasses}>
+        {(['high', 'low'] as AlertPriceType[]).map(option => (
+          <option key={option} value={option}>{getPriceTypeLabel(option)}</option>
+        ))}
+      </select>
+    );
+    const conditionSelect = (
+      <select value={draft.condition} onChange={(e) => updateDraft(index, { condition: e.target.value as RuleDraft['condition'] })} className={inputClasses}>
+        <option value="above">Rises above</option>
+        <option value="below">Drops below</option>
+      </select>
+    );
+
+    switch (draft.type) {
+      case 'price':
+        return (
+          <>
+            {priceTypeSelect}
+            {conditionSelect}
+            <input type="text" placeholder="e.g., 120k or 3.5m" value={draft.price} onChange={(e) => updateDraft(index, { price: e.target.value })} className={inputClasses} />
+            <p className="col-span-2 text-xs text-gray-400">Current: {latestPrice?.[draft.priceType]?.toLocaleString() ?? 'N/A'} gp</p>
+          </>
+        );
+      case 'percent_change':
+        return (
+          <>
+            {priceTypeSelect}
+            <select value={draft.direction} onChange={(e) => updateDraft(index, { direction: e.target.value as RuleDraft['direction'] })} className={inputClasses}>
+              <option value="either">Moves</option>
+              <option value="up">Rises</option>
+              <option value="down">Falls</option>
+            </select>
+            <input type="number" min="0" step="0.1" placeholder="%" value={draft.percent} onChange={(e) => updateDraft(index, { percent: e.target.value })} className={inputClasses} />
+            <select value={draft.windowHours} onChange={(e) => updateDraft(index, { windowHours: parseInt(e.target.value, 10) })} className={inputClasses}>
+              {windowOptions.map(hours => (
+                <option key={hours} value={hours}>within {hours}h</option>
+              ))}
+            </select>
+          </>
+        );
+      case 'margin':
+        return (
+          <>
+            {conditionSelect}
+            <input type="text" placeholder="e.g., 10k" value={draft.price} onChange={(e) => updateDraft(index, { price: e.target.value })} className={inputClasses} />
+            <p className="col-span-2 text-xs text-gray-400">Current margin after tax: {currentMargin?.toLocaleString() ?? 'N/A'} gp</p>
+          </>
+        );
+      case 'volume_spike':
+        return (
+          <>
+            <label className="text-xs text-gray-400">
+              Multiplier
+              <input type="number" min="1" step="0.5" value={draft.multiplier} onChange={(e) => updateDraft(index, { multiplier: e.target.value })} className={`${inputClasses} mt-1`} />
+            </label>
+            <label className="text-xs text-gray-400">
+              Average over (hours)
+              <input type="number" min="2" value={draft.lookbackHours} onChange={(e) => updateDraft(index, { lookbackHours: e.target.value })} className={`${inputClasses} mt-1`} />
+            </label>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-80 z-40 flex justify-center items-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-lg relative border border-gray-700/50 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Button variant="ghost" size="icon" className="absolute top-2 right-2 text-gray-400 hover:text-white" onClick={onClose} aria-label="Close modal">
+          <XIcon className="w-6 h-6" />
+        </Button>
+
+        <div className="flex items-center gap-4 mb-4">
+            <img
+                src={getHighResImageUrl(item.name)}
+                onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }}
+                alt={item.name}
+                className="w-12 h-12 object-contain bg-gray-700/50 rounded-md"
+            />
+            <div>
+                <h2 className="text-xl font-bold text-white">{isEditing ? 'Edit Price Alert' : 'New Price Alert'}</h2>
+                <p className="text-gray-300">{item.name}</p>
+            </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-4" role="alert">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {drafts.length > 1 && (
+            <div>
+              <span className="block text-sm font-medium text-gray-300 mb-1">Trigger when</span>
+              <div className="flex gap-1 bg-gray-900/50 p-1 rounded-lg">
+                <button type="button" onClick={() => setMatch('all')} className={getToggleClasses(match === 'all')}>All rules match (AND)</button>
+                <button type="button" onClick={() => setMatch('any')} className={getToggleClasses(match === 'any')}>Any rule matches (OR)</button>
+              </div>
+            </div>
+          )}
+
+          {drafts.map((draft, index) => {
+            const rule = draftToRule(draft);
+            return (
+              <div key={index} className="bg-gray-900/50 p-3 rounded-md space-y-2">
+                <div className="flex items-center gap-2">
+                  <select value={draft.type} onChange={(e) => updateDraft(index, { type: e.target.value as AlertRule['type'] })} className={inputClasses}>
+                    {(Object.keys(ruleTypeLabels) as AlertRule['type'][]).map(type => (
+                      <option key={type} value={type}>{ruleTypeLabels[type]}</option>
+                    ))}
+                  </select>
+                  {drafts.length > 1 && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="w-8 h-8 flex-shrink-0 text-gray-500 hover:text-red-400"
+                      onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                      aria-label="Remove rule"
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {renderRuleFields(draft, index)}
+                </div>
+                {typeof rule !== 'string' && (
+                  <p className="text-xs text-emerald-400">{describeAlertRule(rule)}</p>
+                )}
+              </div>
+            );
+          })}
+
+          <Button type="button" variant="secondary" size="sm" onClick={() => setDrafts(prev => [...prev, createDraft(defaultPrice)])}>
+            Add Rule
+          </Button>
+
+          <Button type="submit" variant="primary" size="lg" className="w-full mt-2" disabled={loading}>
+            {loading ? <Loader size="sm" /> : isEditing ? 'Save Alert' : 'Create Alert'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { Item } from '../types';
+import type { AlertNotification } from '../hooks/useAlertMonitor';
+import { BellIcon, XIcon } from './icons/Icons';
+
+interface AlertNotificationsProps {
+  notifications: AlertNotification[];
+  items: Record<string, Item>;
+  onSelectItem: (item: Item) => void;
+  onDismiss: (id: string) => void;
+}
+
+export const AlertNotifications: React.FC<AlertNotificationsProps> = ({ notifications, items, onSelectItem, onDismiss }) => {
+  if (notifications.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-5 right-5 z-50 flex flex-col gap-3 w-80 max-w-[calc(100vw-2.5rem)]">
+      {notifications.map(notification => {
+        const item = items[notification.itemId];
+        return (
+          <div
+            key={notification.id}
+            role="alert"
+            className="bg-gray-800 border border-emerald-500/50 rounded-lg shadow-lg p-4 flex items-start gap-3 cursor-pointer hover:bg-gray-700/80 transition-colors"
+            onClick={() => {
+              if (item) onSelectItem(item);
+              onDismiss(notification.id);
+            }}
+          >
+            <BellIcon className="w-5 h-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <p className="font-bold text-white text-sm truncate">{notification.title}</p>
+              <p className="text-xs text-gray-300">{notification.message}</p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation(); // Prevent navigating to the item
+                onDismiss(notification.id);
+              }}
+              className="text-gray-400 hover:text-white"
+              aria-label="Dismiss notification"
+            >
+              <XIcon className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
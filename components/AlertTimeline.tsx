@@ -0,0 +1,59 @@
+import React from 'react';
+import type { AlertTrigger, Item } from '../types';
+import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
+import { describeAlertRule } from '../utils/alerts';
+
+interface AlertTimelineProps {
+  triggers: AlertTrigger[];
+  items: Record<string, Item>;
+  onSelectItem: (item: Item) => void;
+}
+
+export const AlertTimeline: React.FC<AlertTimelineProps> = ({ triggers, items, onSelectItem }) => {
+  if (triggers.length === 0) {
+    return <p className="text-gray-500">None of your alerts have fired yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-700 ml-3 space-y-6">
+      {triggers.map(trigger => {
+        const item = items[trigger.item_id];
+        return (
+          <li key={trigger.id} className="ml-6">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-emerald-500 ring-4 ring-gray-900" />
+            <p className="text-xs text-gray-400">{new Date(trigger.triggered_at).toLocaleString()}</p>
+            <div className="flex items-center gap-3 mt-1">
+              {item && (
+                <img
+                  src={getHighResImageUrl(item.name)}
+                  onError={(e) => {
+                    e.currentTarget.onerror = null; // Prevent infinite loops
+                    e.currentTarget.src = createIconDataUrl(item.icon);
+                  }}
+                  alt={item.name}
+                  className="w-8 h-8 object-contain bg-gray-700/50 rounded-md"
+                />
+              )}
+              <div className="min-w-0">
+                <button
+                  onClick={() => item && onSelectItem(item)}
+                  className="font-bold text-white hover:text-emerald-300 truncate"
+                >
+                  {item?.name ?? `Item ${trigger.item_id}`}
+                </button>
+                <p className="text-sm text-gray-300">
+                  Fired at {trigger.price?.toLocaleString() ?? 'N/A'} gp
+                </p>
+              </div>
+            </div>
+            <ul className="mt-1 text-xs text-emerald-400 list-disc list-inside">
+              {trigger.matched_rules.map((rule, index) => (
+                <li key={index}>{describeAlertRule(rule)}</li>
+              ))}
+            </ul>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
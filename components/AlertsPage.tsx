@@ -1,25 +1,285 @@
-import React from 'react';
-import type { Item, LatestPrice, PriceAlert } from '../types';
+import React, { useState, useMemo } from 'react';
+import type { Item, LatestPrice, PriceAlert, PriceAlertSettings, PriceAlertUpdate, AlertTrigger } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
-import { BellIcon, XIcon } from './icons/Icons';
+import { BellIcon, XIcon, SettingsIcon } from './icons/Icons';
+import { AlertEditorModal } from './AlertEditorModal';
+import { AlertTimeline } from './AlertTimeline';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
+import { describeAlert, getAlertStatus } from '../utils/alerts';
+import type { AlertStatus } from '../utils/alerts';
 
 interface AlertsPageProps {
   alerts: PriceAlert[];
-  setAlerts: React.Dispatch<React.SetStateAction<PriceAlert[]>>;
+  alertTriggers: AlertTrigger[];
+  onUpdateAlert: (alertId: string, updates: PriceAlertUpdate) => Promise<void>;
+  onDeleteAlert: (alertId: string) => Promise<void>;
   items: Record<string, Item>;
   latestPrices: Record<string, LatestPrice>;
   onSelectItem: (item: Item) => void;
 }
 
-export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items, latestPrices, onSelectItem }) => {
-  
-  const handleRemoveAlert = (itemId: number) => {
-    setAlerts(prev => prev.filter(alert => alert.itemId !== itemId));
+const cooldownOptions = [
+  { minutes: 5, label: '5 min' },
+  { minutes: 15, label: '15 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 360, label: '6 hours' },
+  { minutes: 1440, label: '24 hours' },
+];
+
+const snoozeOptions = [
+  { hours: 1, label: '1 hour' },
+  { hours: 8, label: '8 hours' },
+  { hours: 24, label: '24 hours' },
+  { hours: 168, label: '7 days' },
+];
+
+// The expiry's local calendar date, as a date input value. Expiry is stored as
+// the end of a local day, which is often a different day in UTC.
+const toLocalDateInput = (isoDate: string) => {
+  const date = new Date(isoDate);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const selectClasses = 'p-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none';
+
+interface AlertCardProps {
+  alert: PriceAlert;
+  item: Item;
+  latestPrice: LatestPrice | undefined;
+  status: AlertStatus;
+  triggerCount: number;
+  onSelectItem: (item: Item) => void;
+  onEdit: (alert: PriceAlert) => void;
+  onUpdate: (alertId: string, updates: PriceAlertUpdate) => void;
+  onRemove: (alertId: string) => void;
+}
+
+const AlertCard: React.FC<AlertCardProps> = ({ alert, item, latestPrice, status, triggerCount, onSelectItem, onEdit, onUpdate, onRemove }) => {
+  const isInactive = status === 'snoozed' || status === 'expired';
+  const borderClass = status === 'triggered' || status === 'cooling_down' ? 'border-yellow-500/50' : '';
+
+  return (
+    <Card
+      onClick={() => onSelectItem(item)}
+      isHoverable={true}
+      className={`flex flex-col ${borderClass} ${isInactive ? 'opacity-70' : ''}`}
+    >
+      <div className="flex items-center gap-4 flex-1">
+        <img
+          src={getHighResImageUrl(item.name)}
+          onError={(e) => {
+            e.currentTarget.onerror = null; // Prevent infinite loops
+            e.currentTarget.src = createIconDataUrl(item.icon);
+          }}
+          alt={item.name}
+          className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"
+        />
+        <div className="flex-1">
+          <p className="font-bold text-white">{item.name}</p>
+          <p className="text-sm text-emerald-400">
+            {describeAlert(alert)}
+          </p>
+          <p className="text-xs text-gray-400">
+            Buy: {latestPrice?.high?.toLocaleString() || 'N/A'} gp · Sell: {latestPrice?.low?.toLocaleString() || 'N/A'} gp
+          </p>
+          {alert.triggered_at && (
+            <div className="flex items-center gap-2 mt-1">
+              <span className="text-xs font-semibold text-yellow-400">
+                {status === 'cooling_down' ? 'Cooling down, last fired' : 'Triggered'} {new Date(alert.triggered_at).toLocaleString()}
+              </span>
+              {status === 'triggered' && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={(e) => {
+                    e.stopPropagation(); // Prevent card click
+                    onUpdate(alert.id, { triggered_at: null });
+                  }}
+                >
+                  Re-arm
+                </Button>
+              )}
+            </div>
+          )}
+          {triggerCount > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              Fired {triggerCount} time{triggerCount === 1 ? '' : 's'}
+            </p>
+          )}
+        </div>
+        <Button
+            variant="ghost"
+            size="icon"
+            className="w-8 h-8 text-gray-400 hover:text-emerald-400"
+            onClick={(e) => {
+                e.stopPropagation(); // Prevent card click
+                onEdit(alert);
+            }}
+            aria-label={`Edit alert for ${item.name}`}
+        >
+            <SettingsIcon className="w-5 h-5"/>
+        </Button>
+        <Button
+            variant="ghost"
+            size="icon"
+            className="w-8 h-8 text-gray-400 hover:text-red-400"
+            onClick={(e) => {
+                e.stopPropagation(); // Prevent card click
+                onRemove(alert.id);
+            }}
+            aria-label={`Remove alert for ${item.name}`}
+        >
+            <XIcon className="w-5 h-5"/>
+        </Button>
+      </div>
+
+      {/* Schedule controls. Clicks here must not navigate to the item. */}
+      <div className="mt-4 pt-3 border-t border-gray-700/50 grid grid-cols-2 gap-2 text-xs text-gray-400 cursor-default" onClick={(e) => e.stopPropagation()}>
+        <label className="flex flex-col gap-1">
+          Mode
+          <select
+            value={alert.mode}
+            onChange={(e) => onUpdate(alert.id, { mode: e.target.value as PriceAlert['mode'] })}
+            className={selectClasses}
+          >
+            <option value="once">One-shot</option>
+            <option value="repeat">Repeating</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          Cooldown
+          <select
+            value={alert.cooldown_minutes}
+            onChange={(e) => onUpdate(alert.id, { cooldown_minutes: parseInt(e.target.value, 10) })}
+            disabled={alert.mode === 'once'}
+            className={`${selectClasses} disabled:opacity-50`}
+          >
+            {/* Keep a custom value selectable if it isn't one of the presets */}
+            {!cooldownOptions.some(option => option.minutes === alert.cooldown_minutes) && (
+              <option value={alert.cooldown_minutes}>{alert.cooldown_minutes} min</option>
+            )}
+            {cooldownOptions.map(option => (
+              <option key={option.minutes} value={option.minutes}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-col gap-1">
+          Snooze
+          {status === 'snoozed' && alert.snoozed_until ? (
+            <div className="flex items-center gap-2">
+              <span className="text-blue-300 truncate">Until {new Date(alert.snoozed_until).toLocaleString()}</span>
+              <Button size="sm" variant="secondary" onClick={() => onUpdate(alert.id, { snoozed_until: null })}>Wake</Button>
+            </div>
+          ) : (
+            <select
+              value=""
+              onChange={(e) => {
+                const hours = parseInt(e.target.value, 10);
+                onUpdate(alert.id, { snoozed_until: new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() });
+              }}
+              className={selectClasses}
+            >
+              <option value="" disabled>Snooze for…</option>
+              {snoozeOptions.map(option => (
+                <option key={option.hours} value={option.hours}>{option.label}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <label className="flex flex-col gap-1">
+          Expires
+          <input
+            type="date"
+            value={alert.expires_at ? toLocalDateInput(alert.expires_at) : ''}
+            onChange={(e) => {
+              // Alerts expire at the end of the chosen day
+              const expiresAt = e.target.value ? new Date(`${e.target.value}T23:59:59`).toISOString() : null;
+              onUpdate(alert.id, { expires_at: expiresAt });
+            }}
+            className={selectClasses}
+          />
+        </label>
+      </div>
+    </Card>
+  );
+};
+
+export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, alertTriggers, onUpdateAlert, onDeleteAlert, items, latestPrices, onSelectItem }) => {
+
+  const [alertBeingEdited, setAlertBeingEdited] = useState<PriceAlert | null>(null);
+
+  const triggerCounts = useMemo(() => {
+    return alertTriggers.reduce<Record<string, number>>((acc, trigger) => {
+      acc[trigger.alert_id] = (acc[trigger.alert_id] ?? 0) + 1;
+      return acc;
+    }, {});
+  }, [alertTriggers]);
+
+  // Alert statuses depend on the current time, so they're recomputed whenever
+  // the alerts or prices change (prices refresh every minute).
+  const { activeAlerts, snoozedAlerts, expiredAlerts } = useMemo(() => {
+    const now = Date.now();
+    return alerts.reduce<Record<'activeAlerts' | 'snoozedAlerts' | 'expiredAlerts', { alert: PriceAlert; status: AlertStatus }[]>>((acc, alert) => {
+      const status = getAlertStatus(alert, now);
+      if (status === 'snoozed') {
+        acc.snoozedAlerts.push({ alert, status });
+      } else if (status === 'expired') {
+        acc.expiredAlerts.push({ alert, status });
+      } else {
+        acc.activeAlerts.push({ alert, status });
+      }
+      return acc;
+    }, { activeAlerts: [], snoozedAlerts: [], expiredAlerts: [] });
+  }, [alerts, latestPrices]);
+
+  const handleSaveAlert = async (settings: PriceAlertSettings) => {
+    if (!alertBeingEdited) return;
+    // Editing an alert re-arms it so it can fire against the new settings
+    await onUpdateAlert(alertBeingEdited.id, { ...settings, triggered_at: null });
+  };
+
+  const handleRemoveAlert = async (alertId: string) => {
+    try {
+      await onDeleteAlert(alertId);
+    } catch (error) {
+      console.error("Failed to remove alert", error);
+    }
   };
 
-  if (alerts.length === 0) {
+  const handleUpdateAlert = async (alertId: string, updates: PriceAlertUpdate) => {
+    try {
+      await onUpdateAlert(alertId, updates);
+    } catch (error) {
+      console.error("Failed to update alert", error);
+    }
+  };
+
+  const renderAlertGrid = (entries: { alert: PriceAlert; status: AlertStatus }[]) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+      {entries.map(({ alert, status }) => {
+        const item = items[alert.item_id];
+        if (!item) return null; // Should not happen if data is consistent
+
+        return (
+          <AlertCard
+            key={alert.id}
+            alert={alert}
+            item={item}
+            latestPrice={latestPrices[item.id]}
+            status={status}
+            triggerCount={triggerCounts[alert.id] ?? 0}
+            onSelectItem={onSelectItem}
+            onEdit={setAlertBeingEdited}
+            onUpdate={handleUpdateAlert}
+            onRemove={handleRemoveAlert}
+          />
+        );
+      })}
+    </div>
+  );
+
+  if (alerts.length === 0 && alertTriggers.length === 0) {
     return (
       <div className="text-center py-20 flex flex-col items-center">
         <BellIcon className="w-16 h-16 text-gray-600 mb-4" />
@@ -31,55 +291,42 @@ export const AlertsPage: React.FC<AlertsPageProps> = ({ alerts, setAlerts, items
 
   return (
     <div>
+      {alertBeingEdited && items[alertBeingEdited.item_id] && (
+        <AlertEditorModal
+          item={items[alertBeingEdited.item_id]}
+          latestPrice={latestPrices[alertBeingEdited.item_id]}
+          alert={alertBeingEdited}
+          onClose={() => setAlertBeingEdited(null)}
+          onSave={handleSaveAlert}
+        />
+      )}
       <h2 className="text-3xl font-bold text-white mb-6">Price Alerts</h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {alerts.map(alert => {
-          const item = items[alert.itemId];
-          if (!item) return null; // Should not happen if data is consistent
-
-          return (
-            <Card 
-              key={alert.itemId} 
-              onClick={() => onSelectItem(item)} 
-              isHoverable={true}
-              className="flex flex-col"
-            >
-              <div className="flex items-center gap-4 flex-1">
-                <img 
-                  src={getHighResImageUrl(item.name)}
-                  onError={(e) => {
-                    e.currentTarget.onerror = null; // Prevent infinite loops
-                    e.currentTarget.src = createIconDataUrl(item.icon);
-                  }}
-                  alt={item.name} 
-                  className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"
-                />
-                <div className="flex-1">
-                  <p className="font-bold text-white">{item.name}</p>
-                  <p className="text-sm text-emerald-400">
-                    Price is {alert.condition} {alert.targetPrice.toLocaleString()} gp
-                  </p>
-                   <p className="text-xs text-gray-400">
-                    Current: {latestPrices[item.id]?.high?.toLocaleString() || 'N/A'} gp
-                  </p>
-                </div>
-                <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="w-8 h-8 text-gray-400 hover:text-red-400" 
-                    onClick={(e) => {
-                        e.stopPropagation(); // Prevent card click
-                        handleRemoveAlert(item.id);
-                    }}
-                    aria-label={`Remove alert for ${item.name}`}
-                >
-                    <XIcon className="w-5 h-5"/>
-                </Button>
-              </div>
-            </Card>
-          );
-        })}
+      {activeAlerts.length === 0 ? (
+        <p className="text-gray-500 mb-8">You have no active alerts.</p>
+      ) : (
+        renderAlertGrid(activeAlerts)
+      )}
+
+      {snoozedAlerts.length > 0 && (
+        <div className="mt-10">
+          <h3 className="text-2xl font-bold text-white mb-4">Snoozed ({snoozedAlerts.length})</h3>
+          {renderAlertGrid(snoozedAlerts)}
+        </div>
+      )}
+
+      {expiredAlerts.length > 0 && (
+        <div className="mt-10">
+          <h3 className="text-2xl font-bold text-white mb-4">Expired ({expiredAlerts.length})</h3>
+          {renderAlertGrid(expiredAlerts)}
+        </div>
+      )}
+
+      <div className="mt-10">
+        <h3 className="text-2xl font-bold text-white mb-4">Trigger History ({alertTriggers.length})</h3>
+        <Card>
+          <AlertTimeline triggers={alertTriggers} items={items} onSelectItem={onSelectItem} />
+        </Card>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,433 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import type { Item, LatestPrice, TimeseriesData } from '../types';
+import type { PriceProvider } from '../services/priceProvider';
+import { isAbortError } from '../services/requestScheduler';
+import { mergeComparisonSeries, calculatePriceRatio, calculateComparisonStats, getCompareHash, MAX_COMPARE_ITEMS } from '../utils/compare';
+import type { ComparisonScale } from '../utils/compare';
+import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { Share2Icon, XIcon } from './icons/Icons';
+
+interface ComparePageProps {
+  priceProvider: PriceProvider;
+  items: Record<string, Item>;
+  latestPrices: Record<string, LatestPrice>;
+  itemIds: number[];
+  onItemIdsChange: (itemIds: number[]) => void;
+  onSelectItem: (item: Item) => void;
+}
+
+type CompareRange = '1D' | '1W' | '1M' | '6M' | '1Y';
+
+const RANGE_OPTIONS: CompareRange[] = ['1D', '1W', '1M', '6M', '1Y'];
+
+const RANGE_SETTINGS: Record<CompareRange, { timestep: '5m' | '1h' | '6h'; seconds: number }> = {
+  '1D': { timestep: '5m', seconds: 24 * 60 * 60 },
+  '1W': { timestep: '1h', seconds: 7 * 24 * 60 * 60 },
+  '1M': { timestep: '6h', seconds: 30 * 24 * 60 * 60 },
+  '6M': { timestep: '6h', seconds: 182 * 24 * 60 * 60 },
+  '1Y': { timestep: '6h', seconds: 365 * 24 * 60 * 60 },
+};
+
+// One line colour per compared item, in the order they were added.
+const SERIES_COLORS = ['#10b981', '#60a5fa', '#f59e0b', '#f87171', '#a78bfa', '#f472b6', '#2dd4bf', '#facc15'];
+
+const MAX_SUGGESTIONS = 8;
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+const formatPrice = (price: number) => {
+  if (price >= 1000000) return `${(price / 1000000).toFixed(2)}m`;
+  if (price >= 1000) return `${(price / 1000).toFixed(1)}k`;
+  return price.toString();
+};
+
+const formatTime = (unixTime: number) => new Date(unixTime * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDate = (unixTime: number) => new Date(unixTime * 1000).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const ItemIcon: React.FC<{ item: Item }> = ({ item }) => (
+  <img
+    src={getHighResImageUrl(item.name)}
+    onError={(e) => {
+      e.currentTarget.onerror = null;
+      e.currentTarget.src = createIconDataUrl(item.icon);
+    }}
+    alt={item.name}
+    className="w-6 h-6 object-contain"
+  />
+);
+
+const ComparisonTooltip: React.FC<any> = ({ active, payload, label, formatValue }) => {
+  if (!active || !payload || payload.length === 0) return null;
+  return (
+    <div className="p-3 bg-gray-800/80 backdrop-blur-sm border border-gray-700 rounded-lg shadow-lg space-y-1">
+      <p className="text-sm text-gray-300">{new Date(label * 1000).toLocaleString()}</p>
+      {payload.filter((entry: any) => entry.value !== null && entry.value !== undefined).map((entry: any) => (
+        <p key={entry.dataKey} className="text-sm font-semibold" style={{ color: entry.color }}>
+          {entry.name}: {formatValue(entry.value)}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export const ComparePage: React.FC<ComparePageProps> = ({ priceProvider, items, latestPrices, itemIds, onItemIdsChange, onSelectItem }) => {
+  const [range, setRange] = useLocalStorage<CompareRange>('compareRange', '1M');
+  const [scale, setScale] = useLocalStorage<ComparisonScale>('compareScale', 'percent');
+  const [seriesById, setSeriesById] = useState<Record<string, TimeseriesData[]>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [failedIds, setFailedIds] = useState<number[]>([]); // Items whose price data didn't load
+  const [searchTerm, setSearchTerm] = useState('');
+  const [ratioIds, setRatioIds] = useState<[number | null, number | null]>([null, null]);
+  const [notification, setNotification] = useState<string | null>(null);
+
+  const comparedItems = useMemo(() => itemIds.map(id => items[id]).filter((item): item is Item => !!item), [itemIds, items]);
+  const { timestep, seconds: rangeSeconds } = RANGE_SETTINGS[range];
+
+  useEffect(() => {
+    if (comparedItems.length === 0) {
+      setSeriesById({});
+      setFailedIds([]);
+      return;
+    }
+    const controller = new AbortController();
+
+    const loadTimeseries = async () => {
+      setIsLoading(true);
+      setError(null);
+      // One item failing (e.g. rate limited) shouldn't hide the others.
+      const results = await Promise.allSettled(comparedItems.map(item => priceProvider.fetchTimeseries(item.id, timestep, { signal: controller.signal })));
+      if (controller.signal.aborted) return;
+
+      const loaded: Record<string, TimeseriesData[]> = {};
+      const failed: number[] = [];
+      results.forEach((result, i) => {
+        const item = comparedItems[i];
+        if (result.status === 'fulfilled') {
+          loaded[item.id] = [...result.value].sort((a, b) => a.timestamp - b.timestamp);
+        } else if (!isAbortError(result.reason)) {
+          console.error(`Failed to load comparison data for item ${item.id}:`, result.reason);
+          failed.push(item.id);
+        }
+      });
+      setSeriesById(loaded);
+      setFailedIds(failed);
+      if (failed.length === comparedItems.length) setError('Failed to load price data. Please try again.');
+      setIsLoading(false);
+    };
+    loadTimeseries();
+
+    return () => controller.abort();
+  }, [priceProvider, comparedItems, timestep]);
+
+  // Trim to the selected range, keeping only items whose data has loaded.
+  const rangeSeries = useMemo(() => {
+    const startTimeSeconds = Date.now() / 1000 - rangeSeconds;
+    const trimmed: Record<string, TimeseriesData[]> = {};
+    comparedItems.forEach(item => {
+      const series = seriesById[item.id];
+      if (series) trimmed[item.id] = series.filter(d => d.timestamp >= startTimeSeconds);
+    });
+    return trimmed;
+  }, [seriesById, comparedItems, rangeSeconds]);
+
+  const chartData = useMemo(() => mergeComparisonSeries(rangeSeries, scale), [rangeSeries, scale]);
+
+  const loadedItems = useMemo(() => comparedItems.filter(item => !failedIds.includes(item.id)), [comparedItems, failedIds]);
+
+  const stats = useMemo(() => {
+    return comparedItems.map(item => ({ item, stats: calculateComparisonStats(rangeSeries[item.id] ?? []) }));
+  }, [comparedItems, rangeSeries]);
+
+  // Fall back to the first two loaded items when a chosen ratio item is removed or fails to load.
+  const [numeratorId, denominatorId] = useMemo(() => {
+    const validIds = loadedItems.map(item => item.id);
+    const numerator = ratioIds[0] !== null && validIds.includes(ratioIds[0]) ? ratioIds[0] : validIds[0];
+    const denominator = ratioIds[1] !== null && validIds.includes(ratioIds[1]) && ratioIds[1] !== numerator
+      ? ratioIds[1]
+      : validIds.find(id => id !== numerator);
+    return [numerator ?? null, denominator ?? null];
+  }, [loadedItems, ratioIds]);
+
+  const ratioData = useMemo(() => {
+    if (numeratorId === null || denominatorId === null) return [];
+    return calculatePriceRatio(mergeComparisonSeries(rangeSeries, 'absolute'), String(numeratorId), String(denominatorId));
+  }, [rangeSeries, numeratorId, denominatorId]);
+
+  const suggestions = useMemo(() => {
+    if (!searchTerm) return [];
+    const lowercasedTerm = searchTerm.toLowerCase();
+    return Object.values(items)
+      .filter(item => !itemIds.includes(item.id) && item.name.toLowerCase().includes(lowercasedTerm))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [searchTerm, items, itemIds]);
+
+  const isFull = itemIds.length >= MAX_COMPARE_ITEMS;
+
+  const handleAddItem = (item: Item) => {
+    if (isFull) return;
+    onItemIdsChange([...itemIds, item.id]);
+    setSearchTerm('');
+  };
+
+  const handleRemoveItem = (itemId: number) => {
+    onItemIdsChange(itemIds.filter(id => id !== itemId));
+  };
+
+  const handleShare = async () => {
+    const baseUrl = `${window.location.origin}${window.location.pathname}`;
+    const shareUrl = `${baseUrl}${getCompareHash(itemIds)}`;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setNotification('Share link copied to clipboard!');
+    } catch (err) {
+      console.error('Failed to copy text: ', err);
+      setNotification('Failed to copy link.');
+    }
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const formatAxisTime = range === '1D' ? formatTime : formatDate;
+  const getColor = (itemId: number) => SERIES_COLORS[itemIds.indexOf(itemId) % SERIES_COLORS.length];
+  const formatScaleValue = (value: number) => scale === 'percent' ? value.toFixed(2) : `${Math.round(value).toLocaleString()} gp`;
+  const numeratorItem = numeratorId !== null ? items[numeratorId] : null;
+  const denominatorItem = denominatorId !== null ? items[denominatorId] : null;
+
+  return (
+    <div>
+      {notification && (
+        <div className="fixed top-5 right-5 bg-emerald-500 text-white py-2 px-4 rounded-lg shadow-lg z-50 animate-fade-in-down">
+          {notification}
+        </div>
+      )}
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-white">Compare Items</h2>
+          <p className="text-sm text-gray-400">Up to {MAX_COMPARE_ITEMS} items, instant-buy prices</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+            {(['percent', 'absolute'] as ComparisonScale[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={scale === option ? 'secondary' : 'ghost'}
+                onClick={() => setScale(option)}
+                className={`px-3 py-1 ${scale !== option ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}
+              >
+                {option === 'percent' ? 'Rebased' : 'Price'}
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+            {RANGE_OPTIONS.map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={range === option ? 'secondary' : 'ghost'}
+                onClick={() => setRange(option)}
+                className={`px-3 py-1 ${range !== option ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" onClick={handleShare} disabled={itemIds.length === 0} aria-label="Copy share link" className="text-gray-400 hover:text-emerald-400">
+            <Share2Icon className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <div className="relative">
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && suggestions.length > 0) handleAddItem(suggestions[0]);
+            }}
+            disabled={isFull}
+            placeholder={isFull ? `Remove an item to add another (max ${MAX_COMPARE_ITEMS})` : 'Add an item to compare...'}
+            className={inputClasses}
+          />
+          {suggestions.length > 0 && (
+            <ul className="absolute left-0 right-0 top-full mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-10 py-1">
+              {suggestions.map(item => (
+                <li key={item.id}>
+                  <button onClick={() => handleAddItem(item)} className="w-full flex items-center gap-3 px-3 py-2 text-sm text-left text-gray-200 hover:bg-gray-700/50">
+                    <ItemIcon item={item} />
+                    <span className="truncate">{item.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {comparedItems.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {comparedItems.map(item => (
+              <span
+                key={item.id}
+                className={`flex items-center gap-2 bg-gray-900/50 border rounded-full pl-2 pr-1 py-1 text-sm ${failedIds.includes(item.id) ? 'border-red-500/50 text-red-300' : 'border-gray-700 text-gray-200'}`}
+                title={failedIds.includes(item.id) ? 'Price data failed to load' : undefined}
+              >
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getColor(item.id) }} />
+                {item.name}
+                {failedIds.includes(item.id) && <span className="text-xs text-red-400">(failed to load)</span>}
+                <button onClick={() => handleRemoveItem(item.id)} className="p-0.5 rounded-full text-gray-400 hover:text-white hover:bg-gray-700" aria-label={`Remove ${item.name}`}>
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </Card>
+
+      {comparedItems.length === 0 ? (
+        <p className="text-center text-gray-400 mt-8">Search for items above to compare their price history.</p>
+      ) : error ? (
+        <div className="text-center text-red-400 mt-8">{error}</div>
+      ) : isLoading && chartData.length === 0 ? (
+        <div className="flex justify-center items-center pt-20"><Loader /></div>
+      ) : (
+        <div className="space-y-6">
+          <Card>
+            <h3 className="text-lg font-bold text-white mb-3">{scale === 'percent' ? 'Price rebased to 100' : 'Price'}</h3>
+            <div className="h-96">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="timestamp" axisLine={false} tickLine={false} tickFormatter={formatAxisTime} stroke="#9ca3af" tick={{ fill: '#9ca3af', fontSize: 12 }} minTickGap={60} />
+                  <YAxis
+                    axisLine={false}
+                    tickLine={false}
+                    domain={['auto', 'auto']}
+                    tickFormatter={value => scale === 'percent' ? value.toFixed(0) : formatPrice(Math.round(value))}
+                    stroke="#9ca3af"
+                    tick={{ fill: '#9ca3af', fontSize: 12 }}
+                    width={50}
+                  />
+                  <Tooltip content={<ComparisonTooltip formatValue={formatScaleValue} />} />
+                  {scale === 'percent' && <ReferenceLine y={100} stroke="#6b7280" strokeDasharray="4 4" />}
+                  {loadedItems.map(item => (
+                    <Line
+                      key={item.id}
+                      type="monotone"
+                      dataKey={String(item.id)}
+                      name={item.name}
+                      stroke={getColor(item.id)}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          {loadedItems.length >= 2 && numeratorItem && denominatorItem && (
+            <Card>
+              <div className="flex items-center justify-between flex-wrap gap-3 mb-3">
+                <h3 className="text-lg font-bold text-white">Price Ratio</h3>
+                <div className="flex items-center gap-2 text-sm text-gray-400">
+                  <select
+                    value={numeratorItem.id}
+                    onChange={(e) => setRatioIds([parseInt(e.target.value, 10), denominatorItem.id])}
+                    className={inputClasses}
+                    aria-label="Ratio numerator"
+                  >
+                    {loadedItems.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                  </select>
+                  <span>/</span>
+                  <select
+                    value={denominatorItem.id}
+                    onChange={(e) => setRatioIds([numeratorItem.id, parseInt(e.target.value, 10)])}
+                    className={inputClasses}
+                    aria-label="Ratio denominator"
+                  >
+                    {loadedItems.filter(item => item.id !== numeratorItem.id).map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={ratioData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis dataKey="timestamp" axisLine={false} tickLine={false} tickFormatter={formatAxisTime} stroke="#9ca3af" tick={{ fill: '#9ca3af', fontSize: 12 }} minTickGap={60} />
+                    <YAxis axisLine={false} tickLine={false} domain={['auto', 'auto']} tickFormatter={value => value.toPrecision(3)} stroke="#9ca3af" tick={{ fill: '#9ca3af', fontSize: 12 }} width={50} />
+                    <Tooltip content={<ComparisonTooltip formatValue={(value: number) => value.toPrecision(4)} />} />
+                    <Line
+                      type="monotone"
+                      dataKey="ratio"
+                      name={`${numeratorItem.name} / ${denominatorItem.name}`}
+                      stroke={getColor(numeratorItem.id)}
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+          )}
+
+          <Card>
+            <h3 className="text-lg font-bold text-white mb-3">Summary ({range})</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-400 border-b border-gray-700/50">
+                    <th className="py-2 pr-4 font-medium">Item</th>
+                    <th className="py-2 px-4 font-medium text-right">Current</th>
+                    <th className="py-2 px-4 font-medium text-right">Change</th>
+                    <th className="py-2 px-4 font-medium text-right" title="Standard deviation of the change between chart points">Volatility</th>
+                    <th className="py-2 pl-4 font-medium text-right">Volume</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map(({ item, stats: itemStats }) => (
+                    <tr key={item.id} className="border-b border-gray-700/30 last:border-0">
+                      <td className="py-2 pr-4">
+                        <button onClick={() => onSelectItem(item)} className="flex items-center gap-2 text-left text-white hover:text-emerald-300">
+                          <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: getColor(item.id) }} />
+                          <ItemIcon item={item} />
+                          <span className="font-semibold truncate">{item.name}</span>
+                        </button>
+                      </td>
+                      <td className="py-2 px-4 text-right text-gray-200">
+                        {latestPrices[item.id]?.high?.toLocaleString() ?? 'N/A'} gp
+                      </td>
+                      {failedIds.includes(item.id) ? (
+                        <td colSpan={3} className="py-2 pl-4 text-right text-red-400">Price history failed to load</td>
+                      ) : (
+                        <>
+                          <td className={`py-2 px-4 text-right font-semibold ${itemStats.changePercent === null ? 'text-gray-500' : itemStats.changePercent >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {itemStats.changePercent === null ? 'N/A' : formatPercent(itemStats.changePercent)}
+                          </td>
+                          <td className="py-2 px-4 text-right text-gray-200">
+                            {itemStats.volatilityPercent === null ? 'N/A' : `${itemStats.volatilityPercent.toFixed(2)}%`}
+                          </td>
+                          <td className="py-2 pl-4 text-right text-gray-200">{itemStats.volume.toLocaleString()}</td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
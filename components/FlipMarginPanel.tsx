@@ -0,0 +1,140 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import type { Item, LatestPrice } from '../types';
+import { Card } from './ui/Card';
+import { parseShorthandPrice } from '../utils/image';
+import { calculateFlipMargin, calculateFlipProfit, isPriceStale } from '../utils/flipping';
+
+interface FlipMarginPanelProps {
+  item: Item;
+  latestPrice: LatestPrice | undefined;
+}
+
+const formatAge = (seconds: number): string => {
+  if (seconds < 60) return 'just now';
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / (60 * 60))}h ago`;
+  return `${Math.floor(seconds / (24 * 60 * 60))}d ago`;
+};
+
+const ProfitValue: React.FC<{ value: number }> = ({ value }) => {
+  const colorClass = value > 0 ? 'text-emerald-400' : value < 0 ? 'text-red-400' : 'text-gray-400';
+  return <span className={`font-semibold ${colorClass}`}>{value > 0 ? '+' : ''}{value.toLocaleString()} gp</span>;
+};
+
+export const FlipMarginPanel: React.FC<FlipMarginPanelProps> = ({ item, latestPrice }) => {
+  const [quantity, setQuantity] = useState(item.limit > 0 ? String(item.limit) : '1');
+  const [nowSeconds, setNowSeconds] = useState(() => Date.now() / 1000);
+
+  // Keep the price ages current between price refreshes
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNowSeconds(Date.now() / 1000), 30 * 1000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    setQuantity(item.limit > 0 ? String(item.limit) : '1');
+  }, [item.id, item.limit]);
+
+  const margin = useMemo(() => calculateFlipMargin(item, latestPrice), [item, latestPrice]);
+  const parsedQuantity = parseShorthandPrice(quantity);
+  const isQuantityValid = !isNaN(parsedQuantity) && parsedQuantity > 0;
+
+  if (!margin || !latestPrice) {
+    return (
+      <Card className="mb-6">
+        <h3 className="text-xl font-bold text-white mb-2">Flip Margin</h3>
+        <p className="text-sm text-gray-500">Both a buy and a sell price are needed to calculate the margin.</p>
+      </Card>
+    );
+  }
+
+  const limitProfit = item.limit > 0 ? calculateFlipProfit(item, margin, item.limit) : null;
+  const quantityProfit = isQuantityValid ? calculateFlipProfit(item, margin, parsedQuantity) : null;
+  const staleSides = [
+    isPriceStale(latestPrice.highTime, nowSeconds) && 'buy',
+    isPriceStale(latestPrice.lowTime, nowSeconds) && 'sell',
+  ].filter(Boolean);
+
+  return (
+    <Card className="mb-6">
+      <h3 className="text-xl font-bold text-white mb-4">Flip Margin</h3>
+
+      {staleSides.length > 0 && (
+        <div className="bg-yellow-500/20 border border-yellow-500/50 text-yellow-300 text-xs p-2 rounded-md mb-4" role="alert">
+          The instant-{staleSides.join(' and instant-')} price hasn't traded recently, so this margin may be out of date.
+        </div>
+      )}
+
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-gray-400">Buy at</span>
+          <span className="text-white">
+            {margin.buyPrice.toLocaleString()} gp
+            {latestPrice.lowTime && <span className="text-xs text-gray-500 ml-1">({formatAge(nowSeconds - latestPrice.lowTime)})</span>}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Sell at</span>
+          <span className="text-white">
+            {margin.sellPrice.toLocaleString()} gp
+            {latestPrice.highTime && <span className="text-xs text-gray-500 ml-1">({formatAge(nowSeconds - latestPrice.highTime)})</span>}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">Spread</span>
+          <span className="text-white">{margin.spread.toLocaleString()} gp</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">GE tax</span>
+          <span className="text-red-400">-{margin.taxPerItem.toLocaleString()} gp</span>
+        </div>
+        <div className="flex justify-between border-t border-gray-700/50 pt-2">
+          <span className="text-gray-400">Profit per item</span>
+          <ProfitValue value={margin.profitPerItem} />
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-400">ROI</span>
+          <span className={margin.roiPercent >= 0 ? 'text-emerald-400' : 'text-red-400'}>{margin.roiPercent.toFixed(2)}%</span>
+        </div>
+        {limitProfit && (
+          <div className="flex justify-between">
+            <span className="text-gray-400">Per buy limit ({item.limit.toLocaleString()} / 4h)</span>
+            <ProfitValue value={limitProfit.profit} />
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-gray-700/50">
+        <label htmlFor="flip-quantity" className="block text-sm text-gray-400 mb-1">Quantity</label>
+        <input
+          id="flip-quantity"
+          type="text"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          className="w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+        />
+        {quantityProfit ? (
+          <div className="space-y-1 text-sm mt-2">
+            <div className="flex justify-between">
+              <span className="text-gray-400">Cost</span>
+              <span className="text-white">{quantityProfit.cost.toLocaleString()} gp</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Tax</span>
+              <span className="text-red-400">-{quantityProfit.tax.toLocaleString()} gp</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">Estimated profit</span>
+              <ProfitValue value={quantityProfit.profit} />
+            </div>
+            {item.limit > 0 && parsedQuantity > item.limit && (
+              <p className="text-xs text-yellow-300">Above the buy limit; buying this many takes more than 4 hours.</p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-red-400 mt-2">Enter a quantity, e.g. 500 or 1.5k.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useState, useMemo } from 'react';
+import type { Item } from '../types';
+import { parseCsv, guessColumnMapping, validateImportRows, IMPORT_FIELDS } from '../utils/investmentCsv';
+import { InvestmentImportError } from '../services/database';
+import type { ColumnMapping, ImportField, ImportedInvestment } from '../utils/investmentCsv';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { XIcon } from './icons/Icons';
+
+interface ImportInvestmentsModalProps {
+  items: Record<string, Item>;
+  onClose: () => void;
+  onImport: (investments: ImportedInvestment[]) => Promise<void>;
+}
+
+interface ParsedFile {
+  name: string;
+  headers: string[];
+  rows: string[][];
+}
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+const formatDate = (isoDate: string | null) => isoDate ? new Date(isoDate).toLocaleDateString() : '';
+
+export const ImportInvestmentsModal: React.FC<ImportInvestmentsModalProps> = ({ items, onClose, onImport }) => {
+  const [file, setFile] = useState<ParsedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Rows already saved by an import that failed part-way; a retry only sends the rest.
+  const [savedCount, setSavedCount] = useState(0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setError(null);
+    try {
+      const [headers, ...rows] = parseCsv(await selected.text());
+      if (!headers || rows.length === 0) {
+        setError('The file needs a header row and at least one row of data.');
+        return;
+      }
+      setFile({ name: selected.name, headers, rows });
+      setMapping(guessColumnMapping(headers));
+    } catch (err: any) {
+      setError(`Could not read ${selected.name}: ${err.message}`);
+    }
+  };
+
+  // The dry run: every row checked against the mapping, nothing saved yet.
+  const preview = useMemo(() => {
+    if (!file || !mapping) return [];
+    return validateImportRows(file.rows, mapping, items);
+  }, [file, mapping, items]);
+
+  const validInvestments = useMemo(() => {
+    return preview.flatMap(row => row.investment ? [row.investment] : []);
+  }, [preview]);
+
+  const pendingInvestments = useMemo(() => validInvestments.slice(savedCount), [validInvestments, savedCount]);
+  const isPartlySaved = savedCount > 0;
+
+  const missingFields = mapping ? IMPORT_FIELDS.filter(field => field.required && mapping[field.id] === null) : [];
+  const invalidCount = preview.length - validInvestments.length;
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => prev && { ...prev, [field]: value === '' ? null : parseInt(value, 10) });
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      await onImport(pendingInvestments);
+      onClose();
+    } catch (err: any) {
+      if (err instanceof InvestmentImportError) {
+        const totalSaved = savedCount + err.savedCount;
+        setSavedCount(totalSaved);
+        setError(`${err.message} Importing again adds only the ${(validInvestments.length - totalSaved).toLocaleString()} remaining rows.`);
+        return;
+      }
+      setError(err.error_description || err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-80 z-40 flex justify-center items-center p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-4xl max-h-[90vh] overflow-y-auto relative border border-gray-700/50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <Button variant="ghost" size="icon" className="absolute top-2 right-2 text-gray-400 hover:text-white" onClick={onClose} aria-label="Close modal">
+          <XIcon className="w-6 h-6" />
+        </Button>
+
+        <h2 className="text-xl font-bold text-white mb-1">Import Investments</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Upload a CSV with one investment per row. Prices can use shorthand like 120k or 3.5m, and rows with a sell price are imported as closed trades.
+        </p>
+
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-4" role="alert">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-6">
+          <label htmlFor="import-file" className="block text-sm font-medium text-gray-300 mb-1">1. Choose a CSV file</label>
+          <input
+            id="import-file"
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleFileChange}
+            disabled={isPartlySaved} // The saved rows are counted against this file and mapping
+            className="block w-full text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-700 file:text-white hover:file:bg-gray-600"
+          />
+          {file && <p className="text-xs text-gray-400 mt-1">{file.name}: {file.rows.length.toLocaleString()} rows</p>}
+        </div>
+
+        {file && mapping && (
+          <>
+            <div className="mb-6">
+              <p className="block text-sm font-medium text-gray-300 mb-2">2. Match the columns</p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.id}>
+                    <label htmlFor={`import-${field.id}`} className="block text-xs font-medium text-gray-400 mb-1">
+                      {field.label}{field.required && ' *'}
+                    </label>
+                    <select
+                      id={`import-${field.id}`}
+                      value={mapping[field.id] ?? ''}
+                      onChange={(e) => updateMapping(field.id, e.target.value)}
+                      disabled={isPartlySaved}
+                      className={inputClasses}
+                    >
+                      <option value="">Not in file</option>
+                      {file.headers.map((header, i) => (
+                        <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-xs text-yellow-300 mt-2">Choose a column for: {missingFields.map(field => field.label).join(', ')}.</p>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <p className="block text-sm font-medium text-gray-300 mb-2">
+                3. Check the preview{' '}
+                <span className="text-gray-400 font-normal">
+                  ({isPartlySaved ? `${savedCount.toLocaleString()} saved, ${pendingInvestments.length.toLocaleString()} left` : `${validInvestments.length.toLocaleString()} ready`}{invalidCount > 0 && `, ${invalidCount.toLocaleString()} with errors will be skipped`})
+                </span>
+              </p>
+              <div className="max-h-80 overflow-auto border border-gray-700/50 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-gray-800">
+                    <tr className="text-left text-xs text-gray-400 border-b border-gray-700/50">
+                      <th className="py-2 px-3 font-medium">Row</th>
+                      <th className="py-2 px-3 font-medium">Item</th>
+                      <th className="py-2 px-3 font-medium text-right">Qty</th>
+                      <th className="py-2 px-3 font-medium text-right">Buy</th>
+                      <th className="py-2 px-3 font-medium">Bought</th>
+                      <th className="py-2 px-3 font-medium text-right">Sell</th>
+                      <th className="py-2 px-3 font-medium">Sold</th>
+                      <th className="py-2 px-3 font-medium text-right">Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map(row => (
+                      <tr key={row.rowNumber} className="border-b border-gray-700/30 last:border-0">
+                        <td className="py-2 px-3 text-gray-400">{row.rowNumber}</td>
+                        {row.investment ? (
+                          <>
+                            <td className="py-2 px-3 text-white">{items[row.investment.item_id]?.name}</td>
+                            <td className="py-2 px-3 text-right text-gray-200">{row.investment.quantity.toLocaleString()}</td>
+                            <td className="py-2 px-3 text-right text-gray-200">{row.investment.purchase_price.toLocaleString()}</td>
+                            <td className="py-2 px-3 text-gray-200">{formatDate(row.investment.purchase_date)}</td>
+                            <td className="py-2 px-3 text-right text-gray-200">{row.investment.sell_price?.toLocaleString()}</td>
+                            <td className="py-2 px-3 text-gray-200">{formatDate(row.investment.sell_date)}</td>
+                            <td className="py-2 px-3 text-right text-gray-200">{row.investment.tax_paid?.toLocaleString()}</td>
+                          </>
+                        ) : (
+                          <td colSpan={7} className="py-2 px-3 text-red-400">{row.errors.join(' ')}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <Button
+              variant="primary"
+              size="lg"
+              className="w-full"
+              onClick={handleImport}
+              disabled={loading || missingFields.length > 0 || pendingInvestments.length === 0}
+            >
+              {loading ? <Loader size="sm" /> : `Import ${pendingInvestments.length.toLocaleString()} ${isPartlySaved ? 'Remaining ' : ''}Investments`}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { IndicatorSettings, IndicatorPane } from '../utils/indicators';
+import { Button } from './ui/Button';
+import { ChevronDownIcon } from './icons/Icons';
+
+interface IndicatorMenuProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+}
+
+const MIN_PERIOD = 2;
+const MAX_PERIOD = 200;
+
+const PeriodInput: React.FC<{ label: string; value: number; onChange: (value: number) => void; step?: number; min?: number }> = ({ label, value, onChange, step = 1, min = MIN_PERIOD }) => (
+  <label className="flex items-center gap-1 text-xs text-gray-400">
+    {label}
+    <input
+      type="number"
+      min={min}
+      max={MAX_PERIOD}
+      step={step}
+      value={value}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!isNaN(parsed) && parsed >= min && parsed <= MAX_PERIOD) onChange(parsed);
+      }}
+      className="w-14 p-1 bg-gray-900 border border-gray-700 rounded-md text-xs text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+    />
+  </label>
+);
+
+export const IndicatorMenu: React.FC<IndicatorMenuProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const activeCount = [settings.sma.enabled, settings.ema.enabled, settings.bollinger.enabled, settings.vwap.enabled, settings.pane !== 'none']
+    .filter(Boolean).length;
+
+  const toggleClasses = 'flex items-center gap-2 text-sm text-gray-200 cursor-pointer select-none';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <Button variant="secondary" size="sm" onClick={() => setIsOpen(prev => !prev)} className="flex items-center gap-2">
+        <span>Indicators{activeCount > 0 && ` (${activeCount})`}</span>
+        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-gray-800 border border-gray-700 rounded-lg shadow-lg z-10 p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <label className={toggleClasses}>
+              <input type="checkbox" className="accent-emerald-500" checked={settings.sma.enabled} onChange={() => onChange({ ...settings, sma: { ...settings.sma, enabled: !settings.sma.enabled } })} />
+              SMA
+            </label>
+            <PeriodInput label="Period" value={settings.sma.period} onChange={period => onChange({ ...settings, sma: { ...settings.sma, period } })} />
+          </div>
+          <div className="flex items-center justify-between">
+            <label className={toggleClasses}>
+              <input type="checkbox" className="accent-emerald-500" checked={settings.ema.enabled} onChange={() => onChange({ ...settings, ema: { ...settings.ema, enabled: !settings.ema.enabled } })} />
+              EMA
+            </label>
+            <PeriodInput label="Period" value={settings.ema.period} onChange={period => onChange({ ...settings, ema: { ...settings.ema, period } })} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className={toggleClasses}>
+              <input type="checkbox" className="accent-emerald-500" checked={settings.bollinger.enabled} onChange={() => onChange({ ...settings, bollinger: { ...settings.bollinger, enabled: !settings.bollinger.enabled } })} />
+              Bollinger
+            </label>
+            <div className="flex gap-2">
+              <PeriodInput label="P" value={settings.bollinger.period} onChange={period => onChange({ ...settings, bollinger: { ...settings.bollinger, period } })} />
+              <PeriodInput label="σ" value={settings.bollinger.stdDev} step={0.5} min={0.5} onChange={stdDev => onChange({ ...settings, bollinger: { ...settings.bollinger, stdDev } })} />
+            </div>
+          </div>
+          <label className={toggleClasses}>
+            <input type="checkbox" className="accent-emerald-500" checked={settings.vwap.enabled} onChange={() => onChange({ ...settings, vwap: { enabled: !settings.vwap.enabled } })} />
+            VWAP
+          </label>
+
+          <div className="border-t border-gray-700/50 pt-3">
+            <p className="text-xs font-medium text-gray-400 mb-2">Lower pane</p>
+            <div className="flex gap-1 mb-2">
+              {(['none', 'rsi', 'macd'] as IndicatorPane[]).map(pane => (
+                <Button key={pane} size="sm" variant={settings.pane === pane ? 'primary' : 'secondary'} onClick={() => onChange({ ...settings, pane })}>
+                  {pane === 'none' ? 'None' : pane.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+            {settings.pane === 'rsi' && (
+              <PeriodInput label="Period" value={settings.rsi.period} onChange={period => onChange({ ...settings, rsi: { period } })} />
+            )}
+            {settings.pane === 'macd' && (
+              <div className="flex gap-2">
+                <PeriodInput label="Fast" value={settings.macd.fast} onChange={fast => onChange({ ...settings, macd: { ...settings.macd, fast } })} />
+                <PeriodInput label="Slow" value={settings.macd.slow} onChange={slow => onChange({ ...settings, macd: { ...settings.macd, slow } })} />
+                <PeriodInput label="Signal" value={settings.macd.signal} onChange={signal => onChange({ ...settings, macd: { ...settings.macd, signal } })} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
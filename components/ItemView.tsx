@@ -3,17 +3,28 @@
 
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import type { Item, TimeseriesData, LatestPrice, PriceAlert } from '../types';
+import type { Item, TimeseriesData, LatestPrice, PriceAlert, PriceAlertSettings, PriceAlertUpdate, AlertTrigger } from '../types';
 import { PriceChart } from './PriceChart';
+import type { ChartMarker, ChartMode } from './PriceChart';
+import { AlertEditorModal } from './AlertEditorModal';
+import { FlipMarginPanel } from './FlipMarginPanel';
+import { IndicatorMenu } from './IndicatorMenu';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
-import { ArrowLeftIcon, StarIcon, BellIcon, RefreshCwIcon, ChevronDownIcon, BriefcaseIcon, Share2Icon } from './icons/Icons';
+import { ArrowLeftIcon, StarIcon, BellIcon, RefreshCwIcon, ChevronDownIcon, BriefcaseIcon, Share2Icon, Trash2Icon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
+import { requestNotificationPermission } from '../services/notifications';
+import { describeAlert } from '../utils/alerts';
+import { calculateAlchProfit } from '../utils/alchemy';
+import { useIndicatorSettings } from '../hooks/useIndicatorSettings';
+import { useLocalStorage } from '../hooks/useLocalStorage';
 
 interface ItemViewProps {
+  userId: string | null; // Chart indicator choices are remembered per user
   item: Item;
   latestPrice: LatestPrice;
+  natureRunePrice: number | null;
   timeseriesData: TimeseriesData[];
   isLoading: boolean;
   onBack: () => void;
@@ -21,7 +32,10 @@ interface ItemViewProps {
   watchlist: number[];
   toggleWatchlist: (itemId: number) => void;
   alerts: PriceAlert[];
-  setAlerts: React.Dispatch<React.SetStateAction<PriceAlert[]>>;
+  alertTriggers: AlertTrigger[];
+  onAddAlert: (itemId: number, settings: PriceAlertSettings) => Promise<PriceAlert | null>;
+  onUpdateAlert: (alertId: string, updates: PriceAlertUpdate) => Promise<void>;
+  onDeleteAlert: (alertId: string) => Promise<void>;
   onOpenAddInvestmentModal: (item: Item) => void;
 }
 
@@ -30,13 +44,30 @@ type ApiTimeStep = '5m' | '1h' | '6h';
 
 const timeViewOptions: TimeView[] = ['1H', '6H', '1D', '1W', '1M', '6M', '1Y'];
 
-export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeseriesData, isLoading, onBack, onRefresh, watchlist, toggleWatchlist, alerts, setAlerts, onOpenAddInvestmentModal }) => {
+// Candle durations in seconds, sized so each range shows a readable number of candles.
+// Each must span several points of the range's timestep (see timeViewToApiTimeStep), or
+// every candle holds one point and open, high, low and close are all the same.
+const CANDLE_SECONDS: Record<TimeView, number> = {
+  '1H': 15 * 60,
+  '6H': 15 * 60,
+  '1D': 60 * 60,
+  '1W': 6 * 60 * 60,
+  '1M': 24 * 60 * 60,
+  '6M': 3 * 24 * 60 * 60,
+  '1Y': 7 * 24 * 60 * 60,
+};
+
+export const ItemView: React.FC<ItemViewProps> = ({ userId, item, latestPrice, natureRunePrice, timeseriesData, isLoading, onBack, onRefresh, watchlist, toggleWatchlist, alerts, alertTriggers, onAddAlert, onUpdateAlert, onDeleteAlert, onOpenAddInvestmentModal }) => {
   const [activeTimeView, setActiveTimeView] = useState<TimeView>('1W');
   const [notification, setNotification] = useState<string | null>(null);
+  // 'new' opens the editor for a new alert, a PriceAlert opens it for editing
+  const [alertBeingEdited, setAlertBeingEdited] = useState<PriceAlert | 'new' | null>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isAutoRefreshEnabled, setIsAutoRefreshEnabled] = useState(true);
   const [countdown, setCountdown] = useState(300); // 5 minutes in seconds
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const [indicatorSettings, setIndicatorSettings] = useIndicatorSettings(userId);
+  const [chartMode, setChartMode] = useLocalStorage<ChartMode>('chartMode', 'area');
 
   // Effect for countdown timer tick
   useEffect(() => {
@@ -132,8 +163,20 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
     };
   }, [filteredTimeseriesData, latestPrice, isLoading, activeTimeView]);
 
+  const alchProfit = useMemo(() => calculateAlchProfit(item, latestPrice, natureRunePrice), [item, latestPrice, natureRunePrice]);
+
   const isWatched = watchlist.includes(item.id);
-  const existingAlert = alerts.find(a => a.itemId === item.id);
+  const itemAlerts = alerts.filter(a => a.item_id === item.id);
+
+  const alertMarkers = useMemo<ChartMarker[]>(() => {
+    return alertTriggers
+      .filter(trigger => trigger.item_id === item.id)
+      .map(trigger => ({
+        timestamp: new Date(trigger.triggered_at).getTime() / 1000,
+        price: trigger.price,
+        label: 'Alert',
+      }));
+  }, [alertTriggers, item.id]);
 
   const handleTimeViewChange = (timeView: TimeView) => {
     setActiveTimeView(timeView);
@@ -144,22 +187,31 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
     setIsDropdownOpen(false);
   };
   
-  const handleSetAlert = () => {
-    const currentPrice = latestPrice?.high ?? 0;
-    if(currentPrice > 0) {
-        if (existingAlert) {
-            setAlerts(prev => prev.filter(a => a.itemId !== item.id));
-            setNotification(`Alert for ${item.name} removed.`);
-        } else {
-            const newAlert: PriceAlert = {
-                itemId: item.id,
-                targetPrice: currentPrice,
-                condition: 'below'
-            };
-            setAlerts(prev => [...prev.filter(a => a.itemId !== item.id), newAlert]);
-            setNotification(`Alert set for ${item.name}! (Feature is for demonstration)`);
-        }
-        setTimeout(() => setNotification(null), 3000);
+  const showNotification = (message: string) => {
+    setNotification(message);
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const handleSaveAlert = async (settings: PriceAlertSettings) => {
+    if (alertBeingEdited && alertBeingEdited !== 'new') {
+        // Editing an alert re-arms it so it can fire against the new settings
+        await onUpdateAlert(alertBeingEdited.id, { ...settings, triggered_at: null });
+        showNotification(`Alert for ${item.name} updated.`);
+    } else {
+        const newAlert = await onAddAlert(item.id, settings);
+        if (!newAlert) return; // User needs to log in first
+        showNotification(`Alert set for ${item.name}! ${describeAlert(settings)}.`);
+        requestNotificationPermission();
+    }
+  };
+
+  const handleDeleteAlert = async (alert: PriceAlert) => {
+    try {
+        await onDeleteAlert(alert.id);
+        showNotification(`Alert for ${item.name} removed.`);
+    } catch (err) {
+        console.error('Failed to remove alert: ', err);
+        showNotification('Failed to remove alert.');
     }
   };
 
@@ -202,6 +254,15 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
 
   return (
     <div>
+      {alertBeingEdited && (
+        <AlertEditorModal
+          item={item}
+          latestPrice={latestPrice}
+          alert={alertBeingEdited === 'new' ? undefined : alertBeingEdited}
+          onClose={() => setAlertBeingEdited(null)}
+          onSave={handleSaveAlert}
+        />
+      )}
       {notification && (
         <div className="fixed top-5 right-5 bg-emerald-500 text-white py-2 px-4 rounded-lg shadow-lg z-50 animate-fade-in-down">
           {notification}
@@ -231,7 +292,7 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
             <Button onClick={() => toggleWatchlist(item.id)} variant="ghost" size="icon" className={isWatched ? 'text-yellow-400' : 'text-gray-400 hover:text-yellow-400'}>
               <StarIcon className="w-6 h-6" />
             </Button>
-            <Button onClick={handleSetAlert} variant="ghost" size="icon" className={existingAlert ? 'text-emerald-400' : 'text-gray-400 hover:text-emerald-400'}>
+            <Button onClick={() => setAlertBeingEdited('new')} variant="ghost" size="icon" className={itemAlerts.length > 0 ? 'text-emerald-400' : 'text-gray-400 hover:text-emerald-400'}>
                 <BellIcon className="w-6 h-6" />
             </Button>
         </div>
@@ -271,6 +332,20 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
                 )}
               </div>
               <div className="flex items-center gap-x-4 gap-y-2 flex-wrap justify-end">
+                 <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+                    {(['area', 'candles'] as ChartMode[]).map(mode => (
+                        <Button
+                            key={mode}
+                            size="sm"
+                            variant={chartMode === mode ? 'secondary' : 'ghost'}
+                            onClick={() => setChartMode(mode)}
+                            className={`px-3 py-1 ${chartMode !== mode ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}
+                        >
+                            {mode === 'area' ? 'Area' : 'Candles'}
+                        </Button>
+                    ))}
+                 </div>
+                 <IndicatorMenu settings={indicatorSettings} onChange={setIndicatorSettings} />
                  <div className="relative" ref={dropdownRef}>
                     <Button
                         variant="secondary"
@@ -334,23 +409,61 @@ export const ItemView: React.FC<ItemViewProps> = ({ item, latestPrice, timeserie
                 </div>
               </div>
             </div>
-            <div className="h-80">
-              {isLoading ? <div className="flex items-center justify-center h-full"><Loader /></div> : <PriceChart data={filteredTimeseriesData} />}
+            <div className={indicatorSettings.pane === 'none' ? 'h-96' : 'h-[32rem]'}>
+              {isLoading ? <div className="flex items-center justify-center h-full"><Loader /></div> : <PriceChart data={filteredTimeseriesData} markers={alertMarkers} indicators={indicatorSettings} mode={chartMode} candleSeconds={CANDLE_SECONDS[activeTimeView]} />}
             </div>
           </Card>
         </div>
         
         <div className="lg:col-span-1">
+          <FlipMarginPanel item={item} latestPrice={latestPrice} />
           <Card>
             <h3 className="text-xl font-bold text-white mb-4">Item Details</h3>
             <div className="space-y-3 text-sm">
                 <p><strong className="text-gray-400">Examine:</strong> {item.examine}</p>
                 <p><strong className="text-gray-400">Value:</strong> {item.value.toLocaleString()} gp</p>
+                <p><strong className="text-gray-400">Low Alch:</strong> {item.lowalch.toLocaleString()} gp</p>
                 <p><strong className="text-gray-400">High Alch:</strong> {item.highalch.toLocaleString()} gp</p>
+                {alchProfit && (
+                  <p>
+                    <strong className="text-gray-400">Alch Profit:</strong>{' '}
+                    <span className={alchProfit.profit >= 0 ? 'text-emerald-400' : 'text-red-400'}>{alchProfit.profit.toLocaleString()} gp</span>
+                    <span className="text-gray-400"> per cast, {Math.round(alchProfit.profitPerHour).toLocaleString()} gp/hr, {alchProfit.profitPerLimit.toLocaleString()} gp per 4h limit</span>
+                  </p>
+                )}
                 <p><strong className="text-gray-400">Buy Limit:</strong> {item.limit.toLocaleString()}</p>
                 <p><strong className="text-gray-400">Members:</strong> {item.members ? 'Yes' : 'No'}</p>
             </div>
           </Card>
+          {itemAlerts.length > 0 && (
+            <Card className="mt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-white">Your Alerts</h3>
+                <Button size="sm" variant="secondary" onClick={() => setAlertBeingEdited('new')}>Add Alert</Button>
+              </div>
+              <div className="space-y-2">
+                {itemAlerts.map(alert => (
+                  <div key={alert.id} className="flex items-center gap-2 text-sm bg-gray-900/50 rounded-md p-2">
+                    <button onClick={() => setAlertBeingEdited(alert)} className="flex-1 text-left hover:text-emerald-300">
+                      <p className={alert.triggered_at ? 'text-yellow-400' : 'text-emerald-400'}>{describeAlert(alert)}</p>
+                      {alert.triggered_at && (
+                        <p className="text-xs text-gray-400">Triggered {new Date(alert.triggered_at).toLocaleString()}</p>
+                      )}
+                    </button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="w-8 h-8 text-gray-500 hover:text-red-400"
+                      onClick={() => handleDeleteAlert(alert)}
+                      aria-label="Remove alert"
+                    >
+                      <Trash2Icon className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Item, LatestPrice, MarketSnapshot } from '../types';
+import type { PriceProvider } from '../services/priceProvider';
+import { SNAPSHOT_INTERVAL_SECONDS } from '../services/osrsWikiApi';
+import type { SnapshotInterval } from '../services/osrsWikiApi';
+import { isAbortError } from '../services/requestScheduler';
+import { calculateMarketMovers, DEFAULT_MARKET_MOVER_FILTERS } from '../utils/market';
+import type { MarketMover, MarketMoverFilters, MembershipFilter } from '../utils/market';
+import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice } from '../utils/image';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { RefreshCwIcon } from './icons/Icons';
+
+interface MarketMoversPageProps {
+  priceProvider: PriceProvider;
+  items: Record<string, Item>;
+  latestPrices: Record<string, LatestPrice>;
+  onSelectItem: (item: Item) => void;
+}
+
+// The filter inputs as typed, so partial values like "1." survive re-renders.
+interface FilterInputs {
+  membership: MembershipFilter;
+  minVolume: string;
+  minPrice: string;
+  maxPrice: string;
+}
+
+// Windows before the latest one, averaged for the volume-spike baseline.
+const BASELINE_WINDOWS = 3;
+const MOVERS_PER_LIST = 10;
+
+const INTERVAL_LABELS: Record<SnapshotInterval, string> = {
+  '5m': '5 min',
+  '1h': '1 hour',
+};
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+const parseFilterInputs = (inputs: FilterInputs): MarketMoverFilters => {
+  const minVolume = parseShorthandPrice(inputs.minVolume);
+  const minPrice = parseShorthandPrice(inputs.minPrice);
+  const maxPrice = parseShorthandPrice(inputs.maxPrice);
+  return {
+    membership: inputs.membership,
+    minVolume: isNaN(minVolume) ? 0 : minVolume,
+    minPrice: isNaN(minPrice) ? null : minPrice,
+    maxPrice: isNaN(maxPrice) ? null : maxPrice,
+  };
+};
+
+const formatPercent = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const MoverList: React.FC<{
+  title: string;
+  movers: MarketMover[];
+  renderStat: (mover: MarketMover) => React.ReactNode;
+  onSelectItem: (item: Item) => void;
+}> = ({ title, movers, renderStat, onSelectItem }) => (
+  <Card>
+    <h3 className="text-lg font-bold text-white mb-3">{title}</h3>
+    {movers.length === 0 ? (
+      <p className="text-sm text-gray-500">No items match the current filters.</p>
+    ) : (
+      <ul className="space-y-1">
+        {movers.map(mover => (
+          <li key={mover.item.id}>
+            <button
+              onClick={() => onSelectItem(mover.item)}
+              className="w-full flex items-center gap-3 p-2 rounded-md text-left hover:bg-gray-700/50 transition-colors"
+            >
+              <img
+                src={getHighResImageUrl(mover.item.name)}
+                onError={(e) => {
+                  e.currentTarget.onerror = null;
+                  e.currentTarget.src = createIconDataUrl(mover.item.icon);
+                }}
+                alt={mover.item.name}
+                className="w-8 h-8 object-contain bg-gray-700/50 rounded-md"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{mover.item.name}</p>
+                <p className="text-xs text-gray-400">{Math.round(mover.price).toLocaleString()} gp</p>
+              </div>
+              <div className="text-right text-sm">{renderStat(mover)}</div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </Card>
+);
+
+export const MarketMoversPage: React.FC<MarketMoversPageProps> = ({ priceProvider, items, latestPrices, onSelectItem }) => {
+  const [snapshotInterval, setSnapshotInterval] = useLocalStorage<SnapshotInterval>('marketMoversInterval', '1h');
+  const [filterInputs, setFilterInputs] = useLocalStorage<FilterInputs>('marketMoversFilters', {
+    membership: DEFAULT_MARKET_MOVER_FILTERS.membership,
+    minVolume: String(DEFAULT_MARKET_MOVER_FILTERS.minVolume),
+    minPrice: '',
+    maxPrice: '',
+  });
+  const [snapshots, setSnapshots] = useState<MarketSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadSnapshots = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        // The latest window's timestamp tells us which earlier windows to request.
+        const latest = await priceProvider.fetchMarketSnapshot(snapshotInterval, { signal: controller.signal });
+        const earlier = await Promise.all(
+          Array.from({ length: BASELINE_WINDOWS }, (_, i) => priceProvider.fetchMarketSnapshot(snapshotInterval, {
+            timestamp: latest.timestamp - (i + 1) * SNAPSHOT_INTERVAL_SECONDS[snapshotInterval],
+            signal: controller.signal,
+          }))
+        );
+        setSnapshots([latest, ...earlier]);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('Failed to load market snapshots', err);
+        setError('Failed to load market data. Please try again.');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+    loadSnapshots();
+
+    return () => controller.abort();
+  }, [priceProvider, snapshotInterval, refreshCount]);
+
+  const movers = useMemo(() => {
+    return calculateMarketMovers(snapshots, latestPrices, items, parseFilterInputs(filterInputs), MOVERS_PER_LIST);
+  }, [snapshots, latestPrices, items, filterInputs]);
+
+  const updateFilter = <K extends keyof FilterInputs>(key: K, value: FilterInputs[K]) => {
+    setFilterInputs(prev => ({ ...prev, [key]: value }));
+  };
+
+  const windowLabel = INTERVAL_LABELS[snapshotInterval];
+  const latestWindow = snapshots[0] && new Date(snapshots[0].timestamp * 1000);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-white">Market Movers</h2>
+          {latestWindow && (
+            <p className="text-sm text-gray-400">
+              {windowLabel} window starting {latestWindow.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+            {(['5m', '1h'] as SnapshotInterval[]).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={snapshotInterval === option ? 'secondary' : 'ghost'}
+                onClick={() => setSnapshotInterval(option)}
+                className={`px-3 py-1 ${snapshotInterval !== option ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" onClick={() => setRefreshCount(count => count + 1)} disabled={isLoading} aria-label="Refresh market data">
+            <RefreshCwIcon className={`w-5 h-5 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <label htmlFor="movers-membership" className="block text-xs font-medium text-gray-400 mb-1">Items</label>
+            <select
+              id="movers-membership"
+              value={filterInputs.membership}
+              onChange={(e) => updateFilter('membership', e.target.value as MembershipFilter)}
+              className={inputClasses}
+            >
+              <option value="all">All items</option>
+              <option value="members">Members</option>
+              <option value="f2p">Free-to-play</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="movers-min-volume" className="block text-xs font-medium text-gray-400 mb-1">Min volume ({windowLabel})</label>
+            <input
+              id="movers-min-volume"
+              type="text"
+              placeholder="e.g. 1k"
+              value={filterInputs.minVolume}
+              onChange={(e) => updateFilter('minVolume', e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="movers-min-price" className="block text-xs font-medium text-gray-400 mb-1">Min price</label>
+            <input
+              id="movers-min-price"
+              type="text"
+              placeholder="Any"
+              value={filterInputs.minPrice}
+              onChange={(e) => updateFilter('minPrice', e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="movers-max-price" className="block text-xs font-medium text-gray-400 mb-1">Max price</label>
+            <input
+              id="movers-max-price"
+              type="text"
+              placeholder="Any"
+              value={filterInputs.maxPrice}
+              onChange={(e) => updateFilter('maxPrice', e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+      </Card>
+
+      {error ? (
+        <div className="text-center text-red-400 mt-8">{error}</div>
+      ) : isLoading && snapshots.length === 0 ? (
+        <div className="flex justify-center items-center pt-20"><Loader /></div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <MoverList
+            title="Top Gainers"
+            movers={movers.gainers}
+            onSelectItem={onSelectItem}
+            renderStat={mover => <span className="font-semibold text-emerald-400">{formatPercent(mover.changePercent)}</span>}
+          />
+          <MoverList
+            title="Top Losers"
+            movers={movers.losers}
+            onSelectItem={onSelectItem}
+            renderStat={mover => <span className="font-semibold text-red-400">{formatPercent(mover.changePercent)}</span>}
+          />
+          <MoverList
+            title="Most Traded"
+            movers={movers.mostTraded}
+            onSelectItem={onSelectItem}
+            renderStat={mover => (
+              <>
+                <p className="font-semibold text-white">{Math.round(mover.volume * mover.price).toLocaleString()} gp</p>
+                <p className="text-xs text-gray-400">{mover.volume.toLocaleString()} traded</p>
+              </>
+            )}
+          />
+          <MoverList
+            title="Volume Spikes"
+            movers={movers.volumeSpikes}
+            onSelectItem={onSelectItem}
+            renderStat={mover => (
+              <>
+                <p className="font-semibold text-yellow-300">{mover.volumeRatio!.toFixed(1)}x</p>
+                <p className="text-xs text-gray-400">{mover.volume.toLocaleString()} vs avg {Math.round(mover.averageVolume).toLocaleString()}</p>
+              </>
+            )}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,34 +1,56 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import type { Investment, Item, LatestPrice, TimeseriesData } from '../types';
+import type { Investment, InvestmentUpdate, Item, LatestPrice, TimeseriesData } from '../types';
 import { Card } from './ui/Card';
 import { Button } from './ui/Button';
-import { BriefcaseIcon, Trash2Icon } from './icons/Icons';
+import { BriefcaseIcon, Trash2Icon, ChevronDownIcon, EditIcon, DownloadIcon, UploadIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl } from '../utils/image';
 import { SellInvestmentModal } from './SellInvestmentModal';
+import { AddInvestmentModal } from './AddInvestmentModal';
+import { ImportInvestmentsModal } from './ImportInvestmentsModal';
 import { Loader } from './ui/Loader';
-import { fetchTimeseries } from '../services/osrsWikiApi';
+import type { PriceProvider } from '../services/priceProvider';
 import { PortfolioChart } from './PortfolioChart';
+import { TaxReport } from './TaxReport';
+import { groupPositions, calculateRealisedProfit } from '../utils/portfolio';
+import type { LotSale } from '../utils/portfolio';
+import { investmentsToCsv, investmentsToJson } from '../utils/investmentCsv';
+import type { ImportedInvestment } from '../utils/investmentCsv';
 
 
 interface PortfolioPageProps {
+  priceProvider: PriceProvider;
   investments: Investment[];
   items: Record<string, Item>;
   latestPrices: Record<string, LatestPrice>;
-  onCloseInvestment: (investmentId: string, sellData: { sell_price: number; sell_date: string; tax_paid: number; }) => Promise<void>;
+  onImportInvestments: (investments: ImportedInvestment[]) => Promise<void>;
+  onUpdateInvestment: (investmentId: string, updates: InvestmentUpdate) => Promise<void>;
+  onSellInvestment: (lotSales: LotSale[]) => Promise<void>;
   onClearPortfolio: () => Promise<void>;
   onDeleteInvestment: (investmentId: string) => Promise<void>;
 }
 
 type TimeRange = '1M' | '3M' | '1Y' | 'ALL';
 
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
 const ProfitText: React.FC<{ value: number }> = ({ value }) => {
     const colorClass = value > 0 ? 'text-emerald-400' : value < 0 ? 'text-red-400' : 'text-gray-400';
     const sign = value > 0 ? '+' : '';
     return <span className={colorClass}>{sign}{value.toLocaleString()} gp</span>;
 };
 
-export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items, latestPrices, onCloseInvestment, onClearPortfolio, onDeleteInvestment }) => {
-    const [investmentToSell, setInvestmentToSell] = useState<Investment | null>(null);
+export const PortfolioPage: React.FC<PortfolioPageProps> = ({ priceProvider, investments, items, latestPrices, onImportInvestments, onUpdateInvestment, onSellInvestment, onClearPortfolio, onDeleteInvestment }) => {
+    const [lotsToSell, setLotsToSell] = useState<Investment[] | null>(null);
+    const [investmentToEdit, setInvestmentToEdit] = useState<Investment | null>(null);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [expandedItemIds, setExpandedItemIds] = useState<Set<number>>(new Set());
     const [investmentToDelete, setInvestmentToDelete] = useState<Investment | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
     const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
@@ -40,6 +62,9 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
     const [timeRange, setTimeRange] = useState<TimeRange>('1M');
 
     useEffect(() => {
+        // Cancels outstanding price requests when the page unmounts or the inputs change
+        const controller = new AbortController();
+
         const calculateHistory = async () => {
             const openPositionsForHistory = investments.filter(inv => inv.sell_price === null);
             if (openPositionsForHistory.length === 0) {
@@ -53,8 +78,9 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             const itemIds = [...new Set(openPositionsForHistory.map(inv => inv.item_id))];
             
             const timeseriesResponses = await Promise.allSettled(
-                itemIds.map(id => fetchTimeseries(id, '6h'))
+                itemIds.map(id => priceProvider.fetchTimeseries(id, '6h', { signal: controller.signal }))
             );
+            if (controller.signal.aborted) return;
 
             const priceDataMap = new Map<number, { timestamp: number; price: number }[]>();
             timeseriesResponses.forEach((result, index) => {
@@ -120,7 +146,9 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
         };
 
         calculateHistory();
-    }, [investments, timeRange]);
+
+        return () => controller.abort();
+    }, [priceProvider, investments, timeRange]);
 
     const handleConfirmClear = async () => {
         setIsClearing(true);
@@ -176,9 +204,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
 
         closedPositions.forEach(inv => {
             if(inv.sell_price !== null) {
-                const purchaseValue = inv.purchase_price * inv.quantity;
-                const sellValue = inv.sell_price * inv.quantity;
-                realisedProfit += (sellValue - purchaseValue);
+                realisedProfit += calculateRealisedProfit(inv);
                 totalTaxPaid += inv.tax_paid ?? 0;
             }
         });
@@ -186,25 +212,65 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
         return { totalValue, unrealisedProfit, realisedProfit, totalTaxPaid };
     }, [openPositions, closedPositions, latestPrices]);
 
+    const positions = useMemo(() => groupPositions(openPositions, latestPrices), [openPositions, latestPrices]);
+
+    const toggleExpanded = (itemId: number) => {
+        setExpandedItemIds(prev => {
+            const next = new Set(prev);
+            if (next.has(itemId)) next.delete(itemId);
+            else next.add(itemId);
+            return next;
+        });
+    };
+
+    const handleExport = (format: 'csv' | 'json') => {
+        const fileName = `portfolio-${new Date().toISOString().split('T')[0]}.${format}`;
+        if (format === 'csv') downloadFile(fileName, investmentsToCsv(investments, items), 'text/csv');
+        else downloadFile(fileName, investmentsToJson(investments, items), 'application/json');
+    };
+
+    const importModal = isImportOpen && (
+        <ImportInvestmentsModal
+            items={items}
+            onClose={() => setIsImportOpen(false)}
+            onImport={onImportInvestments}
+        />
+    );
+
     if (investments.length === 0) {
         return (
           <div className="text-center py-20 flex flex-col items-center">
+            {importModal}
             <BriefcaseIcon className="w-16 h-16 text-gray-600 mb-4" />
             <h2 className="text-2xl font-bold text-white mb-2">Your Portfolio is Empty</h2>
-            <p className="text-gray-400">Find an item and use the briefcase icon to add your first investment.</p>
+            <p className="text-gray-400 mb-6">Find an item and use the briefcase icon to add your first investment.</p>
+            <Button variant="secondary" onClick={() => setIsImportOpen(true)}>
+                <UploadIcon className="w-5 h-5 mr-2" />
+                Import from CSV
+            </Button>
           </div>
         );
     }
     
     return (
         <div>
-            {investmentToSell && items[investmentToSell.item_id] && (
+            {importModal}
+            {lotsToSell && items[lotsToSell[0].item_id] && (
                 <SellInvestmentModal
-                    investment={investmentToSell}
-                    item={items[investmentToSell.item_id]}
-                    latestPrice={latestPrices[investmentToSell.item_id]}
-                    onClose={() => setInvestmentToSell(null)}
-                    onSave={onCloseInvestment}
+                    lots={lotsToSell}
+                    item={items[lotsToSell[0].item_id]}
+                    latestPrice={latestPrices[lotsToSell[0].item_id]}
+                    onClose={() => setLotsToSell(null)}
+                    onSave={onSellInvestment}
+                />
+            )}
+            {investmentToEdit && items[investmentToEdit.item_id] && (
+                <AddInvestmentModal
+                    item={items[investmentToEdit.item_id]}
+                    latestPrice={latestPrices[investmentToEdit.item_id]}
+                    investment={investmentToEdit}
+                    onClose={() => setInvestmentToEdit(null)}
+                    onSave={({ item_id, ...updates }) => onUpdateInvestment(investmentToEdit.id, updates)}
                 />
             )}
             {investmentToDelete && items[investmentToDelete.item_id] && (
@@ -253,12 +319,24 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
             )}
             <div className="flex items-center justify-between mb-6">
                 <h2 className="text-3xl font-bold text-white">Your Portfolio</h2>
-                {investments.length > 0 && (
+                <div className="flex items-center flex-wrap gap-2">
+                    <Button variant="ghost" className="text-gray-400 hover:text-white" onClick={() => setIsImportOpen(true)}>
+                        <UploadIcon className="w-5 h-5 mr-2" />
+                        Import
+                    </Button>
+                    <Button variant="ghost" className="text-gray-400 hover:text-white" onClick={() => handleExport('csv')}>
+                        <DownloadIcon className="w-5 h-5 mr-2" />
+                        CSV
+                    </Button>
+                    <Button variant="ghost" className="text-gray-400 hover:text-white" onClick={() => handleExport('json')}>
+                        <DownloadIcon className="w-5 h-5 mr-2" />
+                        JSON
+                    </Button>
                     <Button variant="ghost" className="text-gray-400 hover:text-red-400" onClick={() => setIsClearConfirmOpen(true)}>
                         <Trash2Icon className="w-5 h-5 mr-2" />
                         Clear Portfolio
                     </Button>
-                )}
+                </div>
             </div>
             
             {/* Summary Cards */}
@@ -272,7 +350,7 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                     <p className="text-2xl font-bold"><ProfitText value={summaryStats.unrealisedProfit} /></p>
                 </Card>
                 <Card>
-                    <p className="text-sm text-gray-400">Realised Profit</p>
+                    <p className="text-sm text-gray-400">Realised Profit (after tax)</p>
                     <p className="text-2xl font-bold"><ProfitText value={summaryStats.realisedProfit} /></p>
                 </Card>
                 <Card>
@@ -314,36 +392,71 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
 
             {/* Open Positions */}
             <div className="mb-8">
-                <h3 className="text-2xl font-bold text-white mb-4">Open Positions ({openPositions.length})</h3>
-                {openPositions.length > 0 ? (
+                <h3 className="text-2xl font-bold text-white mb-4">Open Positions ({positions.length})</h3>
+                {positions.length > 0 ? (
                     <div className="space-y-4">
-                        {openPositions.map(inv => {
-                            const item = items[inv.item_id];
+                        {positions.map(position => {
+                            const item = items[position.itemId];
                             if (!item) return null;
                             const currentPrice = latestPrices[item.id]?.high ?? 0;
-                            const currentValue = currentPrice * inv.quantity;
-                            const profit = currentValue - (inv.purchase_price * inv.quantity);
+                            const hasManyLots = position.lots.length > 1;
+                            const isExpanded = hasManyLots && expandedItemIds.has(item.id);
                             return (
-                                <Card key={inv.id} className="flex items-center flex-wrap gap-4">
-                                    <img src={getHighResImageUrl(item.name)} onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }} alt={item.name} className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"/>
-                                    <div className="flex-1 min-w-[150px]">
-                                        <p className="font-bold text-white">{item.name}</p>
-                                        <p className="text-sm text-gray-400">{inv.quantity.toLocaleString()} @ {inv.purchase_price.toLocaleString()} gp</p>
-                                    </div>
-                                    <div className="text-sm">
-                                        <p className="text-gray-400">Current Value</p>
-                                        <p className="font-semibold">{currentValue.toLocaleString()} gp</p>
-                                    </div>
-                                    <div className="text-sm">
-                                        <p className="text-gray-400">Unrealised P/L</p>
-                                        <p className="font-semibold"><ProfitText value={profit} /></p>
-                                    </div>
-                                    <div className="flex items-center gap-2">
-                                        <Button size="sm" variant="secondary" onClick={() => setInvestmentToSell(inv)}>Sell</Button>
-                                        <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-red-400" onClick={() => setInvestmentToDelete(inv)}>
-                                            <Trash2Icon className="w-4 h-4" />
-                                        </Button>
+                                <Card key={item.id}>
+                                    <div className="flex items-center flex-wrap gap-4">
+                                        <img src={getHighResImageUrl(item.name)} onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }} alt={item.name} className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"/>
+                                        <div className="flex-1 min-w-[150px]">
+                                            <p className="font-bold text-white">{item.name}</p>
+                                            <p className="text-sm text-gray-400">
+                                                {position.quantity.toLocaleString()} @ {Math.round(position.averageCost).toLocaleString()} gp{hasManyLots && ` avg across ${position.lots.length} lots`}
+                                            </p>
+                                        </div>
+                                        <div className="text-sm">
+                                            <p className="text-gray-400">Current Value</p>
+                                            <p className="font-semibold">{position.currentValue.toLocaleString()} gp</p>
+                                        </div>
+                                        <div className="text-sm">
+                                            <p className="text-gray-400">Unrealised P/L</p>
+                                            <p className="font-semibold"><ProfitText value={Math.round(position.unrealisedProfit)} /></p>
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <Button size="sm" variant="secondary" onClick={() => setLotsToSell(position.lots)}>Sell</Button>
+                                            {hasManyLots ? (
+                                                <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-400 hover:text-white" onClick={() => toggleExpanded(item.id)} aria-label={isExpanded ? 'Hide lots' : 'Show lots'}>
+                                                    <ChevronDownIcon className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`} />
+                                                </Button>
+                                            ) : (
+                                                <>
+                                                    <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-white" onClick={() => setInvestmentToEdit(position.lots[0])} aria-label="Edit investment">
+                                                        <EditIcon className="w-4 h-4" />
+                                                    </Button>
+                                                    <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-red-400" onClick={() => setInvestmentToDelete(position.lots[0])}>
+                                                        <Trash2Icon className="w-4 h-4" />
+                                                    </Button>
+                                                </>
+                                            )}
+                                        </div>
                                     </div>
+                                    {isExpanded && (
+                                        <ul className="mt-4 pt-4 border-t border-gray-700/50 space-y-2">
+                                            {position.lots.map(lot => (
+                                                <li key={lot.id} className="flex items-center flex-wrap gap-4 text-sm">
+                                                    <span className="text-gray-400 w-28">{new Date(lot.purchase_date).toLocaleDateString()}</span>
+                                                    <span className="flex-1 min-w-[120px] text-gray-200">{lot.quantity.toLocaleString()} @ {lot.purchase_price.toLocaleString()} gp</span>
+                                                    <span className="font-semibold"><ProfitText value={(currentPrice - lot.purchase_price) * lot.quantity} /></span>
+                                                    <div className="flex items-center gap-2">
+                                                        <Button size="sm" variant="ghost" onClick={() => setLotsToSell([lot])}>Sell lot</Button>
+                                                        <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-white" onClick={() => setInvestmentToEdit(lot)} aria-label="Edit investment">
+                                                            <EditIcon className="w-4 h-4" />
+                                                        </Button>
+                                                        <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-red-400" onClick={() => setInvestmentToDelete(lot)}>
+                                                            <Trash2Icon className="w-4 h-4" />
+                                                        </Button>
+                                                    </div>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
                                 </Card>
                             );
                         })}
@@ -359,26 +472,34 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                         {closedPositions.map(inv => {
                             const item = items[inv.item_id];
                             if (!item || inv.sell_price === null) return null;
-                            const profit = (inv.sell_price - inv.purchase_price) * inv.quantity;
+                            const profit = calculateRealisedProfit(inv);
                             return (
                                 <Card key={inv.id} className="flex items-center flex-wrap gap-4 opacity-70">
                                     <img src={getHighResImageUrl(item.name)} onError={(e) => { e.currentTarget.src = createIconDataUrl(item.icon); }} alt={item.name} className="w-10 h-10 object-contain bg-gray-700/50 rounded-md"/>
                                     <div className="flex-1 min-w-[150px]">
                                         <p className="font-bold text-white">{item.name}</p>
-                                        <p className="text-sm text-gray-400">{inv.quantity.toLocaleString()} units</p>
+                                        <p className="text-sm text-gray-400">
+                                            {inv.quantity.toLocaleString()} units{inv.parent_id && ' (partial sale)'}
+                                        </p>
                                     </div>
                                     <div className="text-sm">
                                         <p className="text-gray-400">Buy: {inv.purchase_price.toLocaleString()}</p>
                                         <p className="text-gray-400">Sell: {inv.sell_price.toLocaleString()}</p>
+                                        <p className="text-gray-400">Tax: -{(inv.tax_paid ?? 0).toLocaleString()}</p>
                                     </div>
                                     <div className="flex-grow flex items-center justify-between gap-4">
                                         <div className="text-sm">
                                             <p className="text-gray-400">Realised P/L</p>
                                             <p className="font-semibold"><ProfitText value={profit} /></p>
                                         </div>
-                                        <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-red-400" onClick={() => setInvestmentToDelete(inv)}>
-                                            <Trash2Icon className="w-4 h-4" />
-                                        </Button>
+                                        <div className="flex items-center gap-2">
+                                            <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-white" onClick={() => setInvestmentToEdit(inv)} aria-label="Edit investment">
+                                                <EditIcon className="w-4 h-4" />
+                                            </Button>
+                                            <Button size="icon" variant="ghost" className="w-8 h-8 text-gray-500 hover:text-red-400" onClick={() => setInvestmentToDelete(inv)}>
+                                                <Trash2Icon className="w-4 h-4" />
+                                            </Button>
+                                        </div>
                                     </div>
                                 </Card>
                             );
@@ -386,6 +507,12 @@ export const PortfolioPage: React.FC<PortfolioPageProps> = ({ investments, items
                     </div>
                 ) : <p className="text-gray-500">No completed trades yet.</p>}
             </div>
+
+            {closedPositions.length > 0 && (
+                <div className="mt-8">
+                    <TaxReport closedInvestments={closedPositions} items={items} />
+                </div>
+            )}
         </div>
     );
 };
\ No newline at end of file
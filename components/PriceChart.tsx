@@ -1,85 +1,298 @@
 
 import React, { useMemo } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Area, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
 import type { TimeseriesData } from '../types';
+import { applyIndicators } from '../utils/indicators';
+import type { IndicatorSettings } from '../utils/indicators';
+import { aggregateCandles } from '../utils/candles';
+import type { Candle } from '../utils/candles';
+
+// A point of interest drawn on top of the chart, e.g. when a price alert fired.
+export interface ChartMarker {
+  timestamp: number; // Unix timestamp in seconds
+  price: number | null;
+  label: string;
+}
+
+export type ChartMode = 'area' | 'candles';
 
 interface PriceChartProps {
   data: TimeseriesData[];
+  markers?: ChartMarker[];
+  indicators?: IndicatorSettings;
+  mode?: ChartMode;
+  candleSeconds?: number; // Duration of each candle in candle mode
 }
 
+const BUY_COLOR = '#10b981'; // Instant-buy (high) price and volume
+const SELL_COLOR = '#f87171'; // Instant-sell (low) price and volume
+
+// Line colours for each overlay, also used to label them in the tooltip.
+const INDICATOR_STYLES: Record<string, { name: string; color: string }> = {
+  sma: { name: 'SMA', color: '#60a5fa' },
+  ema: { name: 'EMA', color: '#f472b6' },
+  bollingerUpper: { name: 'BB upper', color: '#a78bfa' },
+  bollingerMiddle: { name: 'BB middle', color: '#a78bfa' },
+  bollingerLower: { name: 'BB lower', color: '#a78bfa' },
+  vwap: { name: 'VWAP', color: '#fb923c' },
+  rsi: { name: 'RSI', color: '#38bdf8' },
+  macd: { name: 'MACD', color: '#38bdf8' },
+  macdSignal: { name: 'Signal', color: '#fb923c' },
+  macdHistogram: { name: 'Histogram', color: '#6b7280' },
+};
+
+const formatPrice = (price: number) => {
+    if (price >= 1000000) return `${(price / 1000000).toFixed(2)}m`;
+    if (price >= 1000) return `${(price / 1000).toFixed(1)}k`;
+    return price.toString();
+};
+
+const formatTime = (unixTime: number) => new Date(unixTime * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Draws one candle inside the bar's [low, high] range: the wick spans the whole
+// bar and the body is scaled between the open and close.
+const CandleShape: React.FC<any> = ({ x, y, width, height, payload }) => {
+    const { open, close, high, low } = payload as Candle;
+    const color = close >= open ? BUY_COLOR : SELL_COLOR;
+    const top = Math.min(y, y + height);
+    const rangeHeight = Math.abs(height);
+    const pixelsPerGp = high > low ? rangeHeight / (high - low) : 0;
+    const bodyTop = top + (high - Math.max(open, close)) * pixelsPerGp;
+    const bodyHeight = Math.max(Math.abs(close - open) * pixelsPerGp, 1);
+    const centerX = x + width / 2;
+    return (
+        <g>
+            <line x1={centerX} x2={centerX} y1={top} y2={top + rangeHeight} stroke={color} />
+            <rect x={x + width * 0.15} y={bodyTop} width={width * 0.7} height={bodyHeight} fill={color} />
+        </g>
+    );
+};
+
 const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       return (
         <div className="bg-gray-800/80 backdrop-blur-sm p-3 border border-gray-600 rounded-lg shadow-lg">
           <p className="text-sm text-gray-300">{new Date(data.timestamp * 1000).toLocaleString()}</p>
-          <p className="font-bold text-emerald-400">Price: {data.avgHighPrice?.toLocaleString() || 'N/A'} gp</p>
-          <p className="text-xs text-gray-400">Volume: {(data.highPriceVolume + data.lowPriceVolume).toLocaleString()}</p>
+          {data.open !== undefined && (
+            <p className="text-xs text-gray-300">
+              O {Math.round(data.open).toLocaleString()} H {data.high.toLocaleString()} L {data.low.toLocaleString()} C {Math.round(data.close).toLocaleString()}
+            </p>
+          )}
+          <p className="font-bold text-emerald-400">Buy: {data.avgHighPrice?.toLocaleString() || 'N/A'} gp</p>
+          <p className="font-bold text-red-400">Sell: {data.avgLowPrice?.toLocaleString() || 'N/A'} gp</p>
+          {data.avgHighPrice !== null && data.avgLowPrice !== null && (
+            <p className="text-xs text-gray-300">Spread: {(data.avgHighPrice - data.avgLowPrice).toLocaleString()} gp</p>
+          )}
+          <p className="text-xs text-gray-400">
+            Volume: {data.highPriceVolume.toLocaleString()} bought / {data.lowPriceVolume.toLocaleString()} sold
+          </p>
+          {Object.entries(INDICATOR_STYLES)
+            .filter(([key]) => typeof data[key] === 'number')
+            .map(([key, style]) => (
+              <p key={key} className="text-xs" style={{ color: style.color }}>
+                {style.name}: {data[key].toLocaleString(undefined, { maximumFractionDigits: key.startsWith('macd') || key === 'rsi' ? 2 : 0 })}
+              </p>
+            ))}
         </div>
       );
     }
     return null;
   };
 
-export const PriceChart: React.FC<PriceChartProps> = ({ data }) => {
+export const PriceChart: React.FC<PriceChartProps> = ({ data, markers = [], indicators, mode = 'area', candleSeconds = 60 * 60 }) => {
     
+  const chartData = useMemo(() => {
+    const series: (TimeseriesData | Candle)[] = mode === 'candles' ? aggregateCandles(data, candleSeconds) : data;
+    const points = indicators ? applyIndicators(series, indicators) : series;
+    return points.map(d => ({
+      ...d,
+      // A [low, high] range shades the spread between the two price lines, or spans a candle's wicks.
+      spread: d.avgHighPrice !== null && d.avgLowPrice !== null ? [d.avgLowPrice, d.avgHighPrice] : null,
+      candleRange: 'open' in d ? [d.low, d.high] : null,
+    }));
+  }, [data, indicators, mode, candleSeconds]);
   const hasValidPriceData = useMemo(() => data.some(d => d.avgHighPrice !== null), [data]);
 
+  // The x-axis is categorical, so each marker is snapped to the nearest data point.
+  const snappedMarkers = useMemo(() => {
+    if (chartData.length === 0) return [];
+    const firstTimestamp = chartData[0].timestamp;
+    const lastTimestamp = mode === 'candles' ? chartData[chartData.length - 1].timestamp + candleSeconds : chartData[chartData.length - 1].timestamp;
+    return markers
+      .filter(marker => marker.timestamp >= firstTimestamp && marker.timestamp <= lastTimestamp)
+      .map(marker => {
+        const nearest = chartData.reduce((best, d) =>
+          Math.abs(d.timestamp - marker.timestamp) < Math.abs(best.timestamp - marker.timestamp) ? d : best
+        );
+        return { ...marker, x: nearest.timestamp, y: marker.price ?? nearest.avgHighPrice };
+      });
+  }, [chartData, markers, mode, candleSeconds]);
+
   if (data.length === 0 || !hasValidPriceData) {
     return <div className="flex items-center justify-center h-full text-gray-500">No price data available for this period.</div>;
   }
 
+  const overlayLine = (dataKey: string, dashed = false) => (
+    <Line
+        key={dataKey}
+        type="monotone"
+        dataKey={dataKey}
+        name={INDICATOR_STYLES[dataKey].name}
+        stroke={INDICATOR_STYLES[dataKey].color}
+        strokeWidth={1.5}
+        strokeDasharray={dashed ? '4 4' : undefined}
+        dot={false}
+        isAnimationActive={false}
+    />
+  );
+  const pane = indicators?.pane ?? 'none';
+
   return (
-    <ResponsiveContainer width="100%" height="100%">
-      <AreaChart
-        data={data}
-        margin={{ top: 5, right: 20, left: 10, bottom: 25 }} // More bottom margin for angled labels
-      >
-        <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#10b981" stopOpacity={0.4}/>
-                <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-            </linearGradient>
-        </defs>
-        <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-        <XAxis 
-            dataKey="timestamp" 
-            axisLine={false}
-            tickLine={false}
-            tickFormatter={(unixTime) => new Date(unixTime * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-            stroke="#9ca3af"
-            tick={{ fill: '#9ca3af', fontSize: 12 }}
-            angle={-30}
-            textAnchor="end"
-            dy={10}
-            minTickGap={80}
-        />
-        <YAxis 
-            dataKey="avgHighPrice" 
-            axisLine={false}
-            tickLine={false}
-            domain={['dataMin', 'auto']}
-            tickCount={6}
-            tickFormatter={(price) => {
-                if (price >= 1000000) return `${(price / 1000000).toFixed(2)}m`;
-                if (price >= 1000) return `${(price / 1000).toFixed(1)}k`;
-                return price.toString();
-            }}
-            stroke="#9ca3af"
-            tick={{ fill: '#9ca3af', fontSize: 12 }}
-            width={50}
-        />
-        <Tooltip content={<CustomTooltip />} />
-        <Area 
-            type="monotone" 
-            dataKey="avgHighPrice" 
-            stroke="#10b981" 
-            strokeWidth={2} 
-            fillOpacity={1} 
-            fill="url(#colorPrice)" 
-            connectNulls={true}
-        />
-      </AreaChart>
-    </ResponsiveContainer>
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            syncId="price-chart"
+            margin={{ top: 5, right: 20, left: 10, bottom: 25 }} // More bottom margin for angled labels
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis 
+                dataKey="timestamp" 
+                axisLine={false}
+                tickLine={false}
+                tickFormatter={formatTime}
+                stroke="#9ca3af"
+                tick={{ fill: '#9ca3af', fontSize: 12 }}
+                angle={-30}
+                textAnchor="end"
+                dy={10}
+                minTickGap={80}
+            />
+            <YAxis 
+                axisLine={false}
+                tickLine={false}
+                domain={['dataMin', 'auto']}
+                tickCount={6}
+                tickFormatter={formatPrice}
+                stroke="#9ca3af"
+                tick={{ fill: '#9ca3af', fontSize: 12 }}
+                width={50}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            {mode === 'candles' ? (
+              <Bar dataKey="candleRange" shape={<CandleShape />} isAnimationActive={false} />
+            ) : (
+              <>
+                <Area
+                    type="monotone"
+                    dataKey="spread"
+                    stroke="none"
+                    fill={BUY_COLOR}
+                    fillOpacity={0.15}
+                    connectNulls={true}
+                    activeDot={false}
+                    isAnimationActive={false}
+                />
+                <Line
+                    type="monotone"
+                    dataKey="avgHighPrice"
+                    name="Buy"
+                    stroke={BUY_COLOR}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={true}
+                />
+                <Line
+                    type="monotone"
+                    dataKey="avgLowPrice"
+                    name="Sell"
+                    stroke={SELL_COLOR}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={true}
+                />
+              </>
+            )}
+            {indicators?.bollinger.enabled && ['bollingerUpper', 'bollingerMiddle', 'bollingerLower'].map(key => overlayLine(key, key !== 'bollingerMiddle'))}
+            {indicators?.sma.enabled && overlayLine('sma')}
+            {indicators?.ema.enabled && overlayLine('ema')}
+            {indicators?.vwap.enabled && overlayLine('vwap')}
+            {snappedMarkers.map((marker, index) => (
+                <ReferenceLine key={`line-${index}`} x={marker.x} stroke="#facc15" strokeDasharray="3 3" strokeOpacity={0.6} />
+            ))}
+            {snappedMarkers.map((marker, index) => marker.y !== null && (
+                <ReferenceDot
+                    key={`dot-${index}`}
+                    x={marker.x}
+                    y={marker.y}
+                    r={5}
+                    fill="#facc15"
+                    stroke="#1f2937"
+                    strokeWidth={2}
+                    ifOverflow="extendDomain"
+                    label={{ value: marker.label, position: 'top', fill: '#facc15', fontSize: 10 }}
+                />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="h-20 mt-1">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} syncId="price-chart" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+            <XAxis dataKey="timestamp" hide />
+            <YAxis
+                axisLine={false}
+                tickLine={false}
+                tickCount={3}
+                tickFormatter={formatPrice}
+                stroke="#9ca3af"
+                tick={{ fill: '#9ca3af', fontSize: 10 }}
+                width={50}
+            />
+            <Tooltip content={() => null} cursor={{ fill: '#374151', fillOpacity: 0.4 }} />
+            <Bar dataKey="highPriceVolume" name="Bought" stackId="volume" fill={BUY_COLOR} fillOpacity={0.7} isAnimationActive={false} />
+            <Bar dataKey="lowPriceVolume" name="Sold" stackId="volume" fill={SELL_COLOR} fillOpacity={0.7} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {pane !== 'none' && (
+        <div className="h-28 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} syncId="price-chart" margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="timestamp" hide />
+              <YAxis
+                  axisLine={false}
+                  tickLine={false}
+                  domain={pane === 'rsi' ? [0, 100] : ['auto', 'auto']}
+                  ticks={pane === 'rsi' ? [30, 70] : undefined}
+                  tickCount={3}
+                  tickFormatter={(value) => pane === 'rsi' ? value.toString() : formatPrice(Math.round(value))}
+                  stroke="#9ca3af"
+                  tick={{ fill: '#9ca3af', fontSize: 10 }}
+                  width={50}
+              />
+              <Tooltip content={() => null} />
+              {pane === 'rsi' && (
+                <>
+                  <ReferenceLine y={70} stroke="#f87171" strokeDasharray="3 3" strokeOpacity={0.6} />
+                  <ReferenceLine y={30} stroke="#34d399" strokeDasharray="3 3" strokeOpacity={0.6} />
+                  {overlayLine('rsi')}
+                </>
+              )}
+              {pane === 'macd' && (
+                <>
+                  <Bar dataKey="macdHistogram" fill={INDICATOR_STYLES.macdHistogram.color} isAnimationActive={false} />
+                  {overlayLine('macd')}
+                  {overlayLine('macdSignal')}
+                </>
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
   );
 };
\ No newline at end of file
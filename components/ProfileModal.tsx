@@ -1,17 +1,22 @@
 import React, { useState } from 'react';
-import type { Profile } from '../types';
+import type { Profile, AlertWebhook, AlertWebhookSettings } from '../types';
 import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon } from './icons/Icons';
+import { WebhookSettings } from './WebhookSettings';
 import { updateProfile } from '../services/database';
 
 interface ProfileModalProps {
   profile: Profile;
   onClose: () => void;
   onProfileUpdate: (updatedProfile: Profile) => void;
+  alertWebhooks: AlertWebhook[];
+  onAddWebhook: (settings: AlertWebhookSettings) => Promise<void>;
+  onUpdateWebhook: (webhookId: string, updates: Partial<AlertWebhookSettings>) => Promise<void>;
+  onDeleteWebhook: (webhookId: string) => Promise<void>;
 }
 
-export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onProfileUpdate }) => {
+export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onProfileUpdate, alertWebhooks, onAddWebhook, onUpdateWebhook, onDeleteWebhook }) => {
   const [username, setUsername] = useState(profile.username || '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -53,7 +58,7 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, on
       role="dialog"
     >
       <div 
-        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-md relative border border-gray-700/50"
+        className="bg-gray-800 rounded-lg shadow-xl p-8 w-full max-w-md relative border border-gray-700/50 max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
         {!isNewUser && (
@@ -99,6 +104,17 @@ export const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, on
             {loading ? <Loader size="sm" /> : 'Save Profile'}
           </Button>
         </form>
+
+        {!isNewUser && (
+          <div className="mt-8 pt-6 border-t border-gray-700/50">
+            <WebhookSettings
+              webhooks={alertWebhooks}
+              onAdd={onAddWebhook}
+              onUpdate={onUpdateWebhook}
+              onDelete={onDeleteWebhook}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
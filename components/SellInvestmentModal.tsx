@@ -4,13 +4,16 @@ import { Button } from './ui/Button';
 import { Loader } from './ui/Loader';
 import { XIcon } from './icons/Icons';
 import { getHighResImageUrl, createIconDataUrl, parseShorthandPrice, calculateGeTax } from '../utils/image';
+import { splitSale, COST_BASIS_METHODS } from '../utils/portfolio';
+import type { CostBasisMethod, LotSale } from '../utils/portfolio';
+import { useLocalStorage } from '../hooks/useLocalStorage';
 
 interface SellInvestmentModalProps {
-  investment: Investment;
+  lots: Investment[]; // One lot, or every open lot of the item when selling a whole position
   item: Item;
   latestPrice: LatestPrice;
   onClose: () => void;
-  onSave: (investmentId: string, sellData: { sell_price: number; sell_date: string; tax_paid: number; }) => Promise<void>;
+  onSave: (lotSales: LotSale[]) => Promise<void>;
 }
 
 const ProfitText: React.FC<{ value: number }> = ({ value }) => {
@@ -20,25 +23,36 @@ const ProfitText: React.FC<{ value: number }> = ({ value }) => {
 };
 
 
-export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ investment, item, latestPrice, onClose, onSave }) => {
+export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ lots, item, latestPrice, onClose, onSave }) => {
+  const totalQuantity = useMemo(() => lots.reduce((sum, lot) => sum + lot.quantity, 0), [lots]);
   const [price, setPrice] = useState((latestPrice?.low ?? item.value).toString());
+  const [quantity, setQuantity] = useState(totalQuantity.toString());
+  const [costBasisMethod, setCostBasisMethod] = useLocalStorage<CostBasisMethod>('costBasisMethod', 'fifo');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const parsedPrice = useMemo(() => parseShorthandPrice(price), [price]);
+  const parsedQuantity = useMemo(() => parseInt(quantity, 10), [quantity]);
+  const isQuantityValid = !isNaN(parsedQuantity) && parsedQuantity > 0 && parsedQuantity <= totalQuantity;
 
   const tax = useMemo(() => {
-    if (isNaN(parsedPrice)) return 0;
-    return calculateGeTax(item.name, parsedPrice, investment.quantity);
-  }, [item.name, parsedPrice, investment.quantity]);
+    if (isNaN(parsedPrice) || !isQuantityValid) return 0;
+    return calculateGeTax(item.name, parsedPrice, parsedQuantity);
+  }, [item.name, parsedPrice, parsedQuantity, isQuantityValid]);
   
+  // The sale split across lots, which decides the cost of the units sold.
+  const lotSales = useMemo(() => {
+    if (isNaN(parsedPrice) || !isQuantityValid) return [];
+    return splitSale(lots, { quantity: parsedQuantity, sell_price: parsedPrice, sell_date: '', tax_paid: tax }, costBasisMethod);
+  }, [lots, parsedPrice, parsedQuantity, isQuantityValid, tax, costBasisMethod]);
+
   const estimatedProfit = useMemo(() => {
-    if (isNaN(parsedPrice)) return 0;
-    const totalPurchaseValue = investment.purchase_price * investment.quantity;
-    const totalSellValue = parsedPrice * investment.quantity;
+    if (lotSales.length === 0) return 0;
+    const totalPurchaseValue = lotSales.reduce((sum, { investment, sale }) => sum + investment.purchase_price * sale.quantity, 0);
+    const totalSellValue = parsedPrice * parsedQuantity;
     return (totalSellValue - totalPurchaseValue) - tax;
-  }, [parsedPrice, investment, tax]);
+  }, [lotSales, parsedPrice, parsedQuantity, tax]);
 
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -53,6 +67,11 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
       setLoading(false);
       return;
     }
+    if (!isQuantityValid) {
+      setError(`Quantity must be between 1 and ${totalQuantity.toLocaleString()}.`);
+      setLoading(false);
+      return;
+    }
     if (!date) {
         setError('Please select a valid date.');
         setLoading(false);
@@ -60,11 +79,8 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
     }
 
     try {
-      await onSave(investment.id, {
-        sell_price: numPrice,
-        sell_date: new Date(date).toISOString(),
-        tax_paid: tax,
-      });
+      const sellDate = new Date(date).toISOString();
+      await onSave(lotSales.map(({ investment, sale }) => ({ investment, sale: { ...sale, sell_date: sellDate } })));
       onClose();
     } catch (err: any) {
       setError(err.error_description || err.message);
@@ -97,7 +113,10 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
             />
             <div>
                 <h2 className="text-xl font-bold text-white">Close Position</h2>
-                <p className="text-gray-300">{investment.quantity.toLocaleString()}x {item.name}</p>
+                <p className="text-gray-300">
+                  {totalQuantity.toLocaleString()}x {item.name}
+                  {lots.length > 1 && <span className="text-gray-400"> in {lots.length} lots</span>}
+                </p>
             </div>
         </div>
 
@@ -108,6 +127,44 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
         )}
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="sell-quantity" className="block text-sm font-medium text-gray-300">Quantity Sold</label>
+              <button type="button" onClick={() => setQuantity(totalQuantity.toString())} className="text-xs text-emerald-400 hover:text-emerald-300">
+                Sell all
+              </button>
+            </div>
+            <input
+              id="sell-quantity"
+              type="number"
+              min="1"
+              max={totalQuantity}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              required
+              className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+            />
+            {isQuantityValid && parsedQuantity < totalQuantity && (
+              <p className="text-xs text-gray-400 mt-1">
+                {(totalQuantity - parsedQuantity).toLocaleString()} will stay open
+              </p>
+            )}
+          </div>
+          {lots.length > 1 && (
+            <div>
+              <label htmlFor="cost-basis" className="block text-sm font-medium text-gray-300 mb-1">Sell From</label>
+              <select
+                id="cost-basis"
+                value={costBasisMethod}
+                onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
+              >
+                {COST_BASIS_METHODS.map(method => (
+                  <option key={method.id} value={method.id}>{method.label}: {method.description}</option>
+                ))}
+              </select>
+            </div>
+          )}
           <div>
             <label htmlFor="sell-price" className="block text-sm font-medium text-gray-300 mb-1">Sell Price (each)</label>
             <input
@@ -136,7 +193,7 @@ export const SellInvestmentModal: React.FC<SellInvestmentModalProps> = ({ invest
               className="w-full p-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition"
             />
           </div>
-          {price && !isNaN(parsedPrice) && (
+          {price && !isNaN(parsedPrice) && isQuantityValid && (
             <div className="text-sm text-gray-400 mt-3 bg-gray-900/50 p-3 rounded-md space-y-2">
                 <div className="flex justify-between items-center">
                     <span>GE Tax:</span>
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+import type { Investment, Item } from '../types';
+import { buildTaxReport } from '../utils/portfolio';
+import type { TaxReportPeriod, TaxReportRow } from '../utils/portfolio';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { Card } from './ui/Card';
+import { Button } from './ui/Button';
+
+interface TaxReportProps {
+  closedInvestments: Investment[];
+  items: Record<string, Item>;
+}
+
+const formatPeriod = (period: string) => {
+  if (period.length === 4) return period;
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1).toLocaleDateString([], { month: 'long', year: 'numeric' });
+};
+
+const ReportTable: React.FC<{ title: string; columnLabel: string; rows: (TaxReportRow & { key: string; label: string })[] }> = ({ title, columnLabel, rows }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-gray-300 mb-2">{title}</h4>
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-400 border-b border-gray-700/50">
+            <th className="py-2 pr-4 font-medium">{columnLabel}</th>
+            <th className="py-2 px-4 font-medium text-right">Sales</th>
+            <th className="py-2 px-4 font-medium text-right">Tax Paid</th>
+            <th className="py-2 px-4 font-medium text-right">Exempt Savings</th>
+            <th className="py-2 pl-4 font-medium text-right">Cap Savings</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-gray-700/30 last:border-0">
+              <td className="py-2 pr-4 text-white">{row.label}</td>
+              <td className="py-2 px-4 text-right text-gray-300">{row.sales.toLocaleString()}</td>
+              <td className="py-2 px-4 text-right text-red-400">-{row.taxPaid.toLocaleString()} gp</td>
+              <td className="py-2 px-4 text-right text-emerald-400">{row.exemptSavings.toLocaleString()} gp</td>
+              <td className="py-2 pl-4 text-right text-emerald-400">{row.capSavings.toLocaleString()} gp</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+export const TaxReport: React.FC<TaxReportProps> = ({ closedInvestments, items }) => {
+  const [period, setPeriod] = useLocalStorage<TaxReportPeriod>('taxReportPeriod', 'month');
+
+  const report = useMemo(() => buildTaxReport(closedInvestments, items, period), [closedInvestments, items, period]);
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-bold text-white">Tax Report</h3>
+        <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+          {(['month', 'year'] as TaxReportPeriod[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={period === option ? 'secondary' : 'ghost'}
+              onClick={() => setPeriod(option)}
+              className={`px-3 py-1 ${period !== option ? 'text-gray-400 hover:text-white' : 'shadow-md'}`}
+            >
+              {option === 'month' ? 'Monthly' : 'Yearly'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="bg-gray-900/50 p-3 rounded-md">
+          <p className="text-sm text-gray-400">GE Tax Paid</p>
+          <p className="text-xl font-bold text-red-400">-{report.taxPaid.toLocaleString()} gp</p>
+        </div>
+        <div className="bg-gray-900/50 p-3 rounded-md">
+          <p className="text-sm text-gray-400">Saved on Tax-Exempt Items</p>
+          <p className="text-xl font-bold text-emerald-400">{report.exemptSavings.toLocaleString()} gp</p>
+        </div>
+        <div className="bg-gray-900/50 p-3 rounded-md">
+          <p className="text-sm text-gray-400">Saved by the 5m Tax Cap</p>
+          <p className="text-xl font-bold text-emerald-400">{report.capSavings.toLocaleString()} gp</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <ReportTable
+          title="By Period"
+          columnLabel={period === 'month' ? 'Month' : 'Year'}
+          rows={report.byPeriod.map(row => ({ ...row, key: row.period, label: formatPeriod(row.period) }))}
+        />
+        <ReportTable
+          title="By Item"
+          columnLabel="Item"
+          rows={report.byItem.map(row => ({ ...row, key: String(row.itemId), label: items[row.itemId]?.name ?? `Item ${row.itemId}` }))}
+        />
+      </div>
+    </Card>
+  );
+};
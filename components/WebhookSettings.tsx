@@ -0,0 +1,181 @@
+import React, { useState, useMemo } from 'react';
+import type { AlertWebhook, AlertWebhookSettings, WebhookFormat } from '../types';
+import { Button } from './ui/Button';
+import { Loader } from './ui/Loader';
+import { XIcon } from './icons/Icons';
+import { createSampleWebhookPayload, formatWebhookBody, getBrowserAppUrl, sendWebhook } from '../services/webhooks';
+
+interface WebhookSettingsProps {
+  webhooks: AlertWebhook[];
+  onAdd: (settings: AlertWebhookSettings) => Promise<void>;
+  onUpdate: (webhookId: string, updates: Partial<AlertWebhookSettings>) => Promise<void>;
+  onDelete: (webhookId: string) => Promise<void>;
+}
+
+type TestStatus = { state: 'sending' } | { state: 'sent' } | { state: 'failed'; message: string };
+
+const inputClasses = 'w-full p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:ring-2 focus:ring-emerald-500 focus:outline-none transition';
+
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({ webhooks, onAdd, onUpdate, onDelete }) => {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [format, setFormat] = useState<WebhookFormat>('discord');
+  const [previewFormat, setPreviewFormat] = useState<WebhookFormat>('discord');
+  const [testStatuses, setTestStatuses] = useState<Record<string, TestStatus>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewBody = useMemo(() => {
+    return JSON.stringify(formatWebhookBody({ format: previewFormat }, createSampleWebhookPayload(getBrowserAppUrl())), null, 2);
+  }, [previewFormat]);
+
+  const saveWebhooks = async (save: () => Promise<void>) => {
+    setError(null);
+    setSaving(true);
+    try {
+      await save();
+      return true;
+    } catch (err: any) {
+      setError(err.message);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const parsedUrl = new URL(url);
+      if (parsedUrl.protocol !== 'https:' && parsedUrl.protocol !== 'http:') throw new Error();
+    } catch {
+      setError('Please enter a valid http(s) URL.');
+      return;
+    }
+
+    const newWebhook: AlertWebhookSettings = {
+      name: name.trim() || (format === 'discord' ? 'Discord' : 'Webhook'),
+      url,
+      format,
+      enabled: true,
+    };
+    if (await saveWebhooks(() => onAdd(newWebhook))) {
+      setName('');
+      setUrl('');
+    }
+  };
+
+  const handleTest = async (webhook: AlertWebhook) => {
+    setTestStatuses(prev => ({ ...prev, [webhook.id]: { state: 'sending' } }));
+    try {
+      await sendWebhook(webhook, createSampleWebhookPayload(getBrowserAppUrl()));
+      setTestStatuses(prev => ({ ...prev, [webhook.id]: { state: 'sent' } }));
+    } catch (err: any) {
+      // Network and CORS failures surface as a TypeError with no status code
+      setTestStatuses(prev => ({ ...prev, [webhook.id]: { state: 'failed', message: err.message } }));
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-white mb-1">Alert Webhooks</h3>
+      <p className="text-sm text-gray-400 mb-4">Send a message to Discord or any HTTP endpoint whenever one of your alerts fires.</p>
+
+      {error && (
+          <div className="bg-red-500/20 border border-red-500/50 text-red-300 text-sm p-3 rounded-md mb-4" role="alert">
+              {error}
+          </div>
+      )}
+
+      {webhooks.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {webhooks.map(webhook => {
+            const status = testStatuses[webhook.id];
+            return (
+              <li key={webhook.id} className="bg-gray-900/50 border border-gray-700/50 rounded-lg p-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={webhook.enabled}
+                    onChange={() => saveWebhooks(() => onUpdate(webhook.id, { enabled: !webhook.enabled }))}
+                    disabled={saving}
+                    className="accent-emerald-500"
+                    aria-label={`Enable ${webhook.name}`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-white truncate">
+                      {webhook.name} <span className="text-xs font-normal text-gray-500">({webhook.format === 'discord' ? 'Discord' : 'JSON'})</span>
+                    </p>
+                    <p className="text-xs text-gray-400 truncate">{webhook.url}</p>
+                  </div>
+                  <Button size="sm" variant="secondary" onClick={() => handleTest(webhook)} disabled={status?.state === 'sending'}>
+                    {status?.state === 'sending' ? <Loader size="sm" /> : 'Send Test'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="w-8 h-8 text-gray-400 hover:text-red-400"
+                    onClick={() => saveWebhooks(() => onDelete(webhook.id))}
+                    disabled={saving}
+                    aria-label={`Remove ${webhook.name}`}
+                  >
+                    <XIcon className="w-4 h-4" />
+                  </Button>
+                </div>
+                {status?.state === 'sent' && <p className="text-xs text-emerald-400 mt-2">Test payload delivered.</p>}
+                {status?.state === 'failed' && <p className="text-xs text-red-400 mt-2">Test failed: {status.message}</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            placeholder="Name, e.g. Clan flips"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={40}
+            className={inputClasses}
+          />
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as WebhookFormat)}
+            className="p-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          >
+            <option value="discord">Discord</option>
+            <option value="json">JSON</option>
+          </select>
+        </div>
+        <input
+          type="url"
+          placeholder={format === 'discord' ? 'https://discord.com/api/webhooks/...' : 'http://localhost:8080/alerts'}
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          required
+          className={inputClasses}
+        />
+        <Button type="submit" variant="secondary" className="w-full" disabled={saving || !url}>
+          {saving ? <Loader size="sm" /> : 'Add Webhook'}
+        </Button>
+      </form>
+
+      <details className="mt-4">
+        <summary className="text-sm text-gray-300 cursor-pointer hover:text-white">Payload preview</summary>
+        <div className="flex gap-2 mt-2 mb-2">
+          {(['discord', 'json'] as WebhookFormat[]).map(f => (
+            <Button key={f} size="sm" variant={previewFormat === f ? 'primary' : 'secondary'} onClick={() => setPreviewFormat(f)}>
+              {f === 'discord' ? 'Discord' : 'JSON'}
+            </Button>
+          ))}
+        </div>
+        <pre className="bg-gray-900 border border-gray-700 rounded-lg p-3 text-xs text-gray-300 max-h-60 overflow-auto">{previewBody}</pre>
+        <p className="text-xs text-gray-500 mt-1">Requests are sent from your browser, so custom endpoints must allow cross-origin POSTs.</p>
+      </details>
+    </div>
+  );
+};
@@ -1,2 +1,19 @@
 
-export const OSRS_WIKI_API_BASE_URL = 'https://prices.runescape.wiki/api/v1/osrs';
+import type { GameMode } from './types';
+
+// The game mode's feed (e.g. `/osrs`) is appended to this for every request.
+export const OSRS_WIKI_API_BASE_URL = 'https://prices.runescape.wiki/api/v1';
+
+export const DEFAULT_GAME_MODE: GameMode = 'osrs';
+
+export const GAME_MODES: { id: GameMode; label: string }[] = [
+  { id: 'osrs', label: 'Old School' },
+  { id: 'dmm', label: 'Deadman Mode' },
+  { id: 'fsw', label: 'Fresh Start Worlds' },
+];
+
+// How often the latest prices are re-fetched so price alerts can be re-evaluated.
+export const LATEST_PRICES_REFRESH_INTERVAL_MS = 60_000;
+
+// Every alchemy cast uses one Nature rune, so its live price is part of the alch cost.
+export const NATURE_RUNE_ITEM_ID = 561;
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { Item, LatestPrice, PriceAlert, TimeseriesData, AlertRule } from '../types';
+import { evaluateAlert, isAlertArmed, getRequiredTimesteps, describeAlertRule, getObservedPrice } from '../utils/alerts';
+import type { AlertTimestep } from '../utils/alerts';
+import type { PriceProvider } from '../services/priceProvider';
+import { isAbortError } from '../services/requestScheduler';
+import { showBrowserNotification } from '../services/notifications';
+import { getHighResImageUrl } from '../utils/image';
+import { LATEST_PRICES_REFRESH_INTERVAL_MS } from '../constants';
+
+export interface AlertNotification {
+  id: string;
+  itemId: number;
+  title: string;
+  message: string;
+}
+
+export interface TriggeredAlert {
+  alert: PriceAlert;
+  matchedRules: AlertRule[];
+  price: number | null; // The observed price when the alert fired
+}
+
+/**
+ * Re-evaluates the user's price alerts whenever new prices arrive. Alerts that
+ * fire are reported through `onAlertsTriggered`, which claims and persists them
+ * and resolves to the ones that weren't already fired elsewhere. Those raise
+ * both an in-app and a browser notification.
+ * @returns The pending in-app notifications and a function to dismiss one.
+ */
+export function useAlertMonitor(
+  priceProvider: PriceProvider,
+  alerts: PriceAlert[],
+  latestPrices: Record<string, LatestPrice>,
+  items: Record<string, Item>,
+  onAlertsTriggered: (triggered: TriggeredAlert[], triggeredAt: string) => Promise<TriggeredAlert[]>,
+  onSelectItem: (item: Item) => void,
+) {
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  // Timeseries for percent-change and volume rules, keyed by `${itemId}:${timestep}`.
+  const timeseriesCache = useRef<Record<string, { fetchedAt: number; data: TimeseriesData[] }>>({});
+
+  useEffect(() => {
+    if (Object.keys(latestPrices).length === 0) return;
+    const armedAlerts = alerts.filter(alert => isAlertArmed(alert));
+    if (armedAlerts.length === 0) return;
+
+    // Aborted when newer prices arrive or the component unmounts
+    const controller = new AbortController();
+
+    const evaluate = async () => {
+      // Fetch (or re-use) the timeseries needed by rules that look at price history.
+      const now = Date.now();
+      const staleKeys = new Set<string>();
+      armedAlerts.forEach(alert => {
+        getRequiredTimesteps(alert).forEach(timestep => {
+          const key = `${alert.item_id}:${timestep}`;
+          const cached = timeseriesCache.current[key];
+          if (!cached || now - cached.fetchedAt >= LATEST_PRICES_REFRESH_INTERVAL_MS) {
+            staleKeys.add(key);
+          }
+        });
+      });
+
+      await Promise.allSettled([...staleKeys].map(async key => {
+        const [itemId, timestep] = key.split(':');
+        try {
+          const data = await priceProvider.fetchTimeseries(parseInt(itemId, 10), timestep as AlertTimestep, { signal: controller.signal });
+          timeseriesCache.current[key] = { fetchedAt: now, data: data.sort((a, b) => a.timestamp - b.timestamp) };
+        } catch (err) {
+          if (isAbortError(err)) return;
+          console.error(`Failed to fetch timeseries for alert item ${itemId}:`, err);
+        }
+      }));
+
+      if (controller.signal.aborted) return;
+
+      const triggered: TriggeredAlert[] = [];
+      armedAlerts.forEach(alert => {
+        const evaluation = evaluateAlert(alert, {
+          item: items[alert.item_id],
+          latestPrice: latestPrices[alert.item_id],
+          timeseries: {
+            '5m': timeseriesCache.current[`${alert.item_id}:5m`]?.data,
+            '1h': timeseriesCache.current[`${alert.item_id}:1h`]?.data,
+          },
+        });
+        if (evaluation.isTriggered) {
+          triggered.push({
+            alert,
+            matchedRules: evaluation.matchedRules,
+            price: getObservedPrice(evaluation.matchedRules, latestPrices[alert.item_id]),
+          });
+        }
+      });
+
+      if (triggered.length === 0) return;
+
+      const triggeredAt = new Date().toISOString();
+      // Not checked for abort afterwards: claimed fires must still be notified.
+      const claimed = await onAlertsTriggered(triggered, triggeredAt);
+      if (claimed.length === 0) return;
+
+      const newNotifications = claimed.map(({ alert, matchedRules, price }) => {
+        const item = items[alert.item_id];
+        const itemName = item?.name ?? `Item ${alert.item_id}`;
+        const notification: AlertNotification = {
+          id: `${alert.id}-${triggeredAt}`,
+          itemId: alert.item_id,
+          title: `Price alert: ${itemName}`,
+          message: `${matchedRules.map(describeAlertRule).join(', ')} (now ${price?.toLocaleString() ?? 'N/A'} gp)`,
+        };
+
+        showBrowserNotification(notification.title, {
+          body: notification.message,
+          icon: item ? getHighResImageUrl(item.name) : undefined,
+          onClick: item ? () => onSelectItem(item) : undefined,
+        });
+
+        return notification;
+      });
+
+      setNotifications(prev => [...prev, ...newNotifications]);
+    };
+
+    evaluate();
+
+    return () => controller.abort();
+  }, [priceProvider, alerts, latestPrices, items, onAlertsTriggered, onSelectItem]);
+
+  const dismissNotification = useCallback((id: string) => {
+    setNotifications(prev => prev.filter(n => n.id !== id));
+  }, []);
+
+  return { notifications, dismissNotification };
+}
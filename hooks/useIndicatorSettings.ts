@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_INDICATOR_SETTINGS } from '../utils/indicators';
+import type { IndicatorSettings } from '../utils/indicators';
+
+const getStorageKey = (userId: string | null) => `chartIndicators:${userId ?? 'guest'}`;
+
+const loadSettings = (userId: string | null): IndicatorSettings => {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(userId));
+    // Merge over the defaults so settings saved before an indicator existed still load.
+    return stored ? { ...DEFAULT_INDICATOR_SETTINGS, ...JSON.parse(stored) } : DEFAULT_INDICATOR_SETTINGS;
+  } catch (error) {
+    console.error(error);
+    return DEFAULT_INDICATOR_SETTINGS;
+  }
+};
+
+/**
+ * The chart indicators the user has chosen, remembered separately for each
+ * account on this device. Unlike useLocalStorage, the settings are reloaded
+ * when the user changes.
+ */
+export function useIndicatorSettings(userId: string | null): [IndicatorSettings, (settings: IndicatorSettings) => void] {
+  const [settings, setSettings] = useState(() => loadSettings(userId));
+
+  useEffect(() => {
+    setSettings(loadSettings(userId));
+  }, [userId]);
+
+  const updateSettings = useCallback((newSettings: IndicatorSettings) => {
+    setSettings(newSettings);
+    try {
+      window.localStorage.setItem(getStorageKey(userId), JSON.stringify(newSettings));
+    } catch (error) {
+      console.error(error);
+    }
+  }, [userId]);
+
+  return [settings, updateSettings];
+}
@@ -0,0 +1,246 @@
+// Headless alert evaluator. Polls the latest prices, evaluates every stored
+// alert with the same rules as the browser app and delivers fired alerts to the
+// owners' webhooks, so alerts keep working when no tab is open.
+//
+// Usage: npm run alerts:worker [-- --once]
+//
+// Environment variables:
+//   SUPABASE_URL               Supabase project URL (required)
+//   SUPABASE_SERVICE_ROLE_KEY  Service role key, needed to read every user's alerts (required)
+//   OSRS_WIKI_API_BASE_URL     Prices API base URL without the game mode, e.g. a local mock (defaults to the OSRS Wiki)
+//   APP_URL                    Base URL of the web app, used for item links (default http://localhost:5173/)
+//   POLL_INTERVAL_MS           How often to poll /latest (default 60000)
+//   USER_AGENT                 User-Agent sent to the prices API
+
+import { createClient } from '@supabase/supabase-js';
+import WebSocket from 'ws';
+import type { Database } from '../services/supabase';
+import type { Item, LatestPrice, PriceAlert, TimeseriesData, AlertWebhook, AlertRule, GameMode } from '../types';
+import { configureApi, fetchItemMapping, fetchLatestPrices, fetchTimeseries, setGameMode } from '../services/osrsWikiApi';
+import { buildAlertWebhookPayload, dispatchAlertWebhooks } from '../services/webhooks';
+import type { AlertWebhookPayload } from '../services/webhooks';
+import { evaluateAlert, isAlertArmed, getAlertClaimFilter, getRequiredTimesteps, getObservedPrice, describeAlertRule } from '../utils/alerts';
+import type { AlertTimestep } from '../utils/alerts';
+import { LATEST_PRICES_REFRESH_INTERVAL_MS } from '../constants';
+
+const DEFAULT_USER_AGENT = 'GE Pulse alert worker';
+
+const requireEnv = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`Missing required environment variable ${name}.`);
+    process.exit(1);
+  }
+  return value;
+};
+
+const supabase = createClient<Database>(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+  auth: { persistSession: false, autoRefreshToken: false },
+  // Node < 22 has no global WebSocket; the ws types don't line up with the DOM ones
+  realtime: { transport: WebSocket as unknown as typeof globalThis.WebSocket },
+});
+const appUrl = process.env.APP_URL || 'http://localhost:5173/';
+const pollIntervalMs = parseInt(process.env.POLL_INTERVAL_MS || '', 10) || LATEST_PRICES_REFRESH_INTERVAL_MS;
+
+configureApi({
+  baseUrl: process.env.OSRS_WIKI_API_BASE_URL,
+  userAgent: process.env.USER_AGENT || DEFAULT_USER_AGENT,
+});
+
+// Timeseries for percent-change and volume rules, keyed by `${gameMode}:${itemId}:${timestep}`.
+const timeseriesCache: Record<string, { fetchedAt: number; data: TimeseriesData[] }> = {};
+// Item lists are loaded the first time a game mode has armed alerts.
+const itemsByGameMode: Partial<Record<GameMode, Record<string, Item>>> = {};
+
+interface FiredAlert {
+  alert: PriceAlert;
+  item: Pick<Item, 'id' | 'name'>;
+  matchedRules: AlertRule[];
+  price: number | null;
+}
+
+const fetchAllAlerts = async (): Promise<PriceAlert[]> => {
+  const { data, error } = await supabase.from('alerts').select('*');
+  if (error) throw error;
+  return data || [];
+};
+
+// Row level security keeps webhooks private to their owner; the service role key bypasses it.
+const fetchWebhooksByUser = async (userIds: string[]): Promise<Record<string, AlertWebhook[]>> => {
+  const { data, error } = await supabase
+    .from('alert_webhooks')
+    .select('*')
+    .in('user_id', userIds)
+    .eq('enabled', true);
+  if (error) throw error;
+  const webhooksByUser: Record<string, AlertWebhook[]> = {};
+  (data || []).forEach(webhook => {
+    (webhooksByUser[webhook.user_id] ??= []).push(webhook);
+  });
+  return webhooksByUser;
+};
+
+/**
+ * Marks fired alerts as triggered, but only those still armed in the database.
+ * The browser app evaluates alerts too, so any it has already fired are skipped
+ * rather than being recorded and delivered a second time.
+ */
+const claimTriggers = async (triggered: FiredAlert[], triggeredAt: string): Promise<FiredAlert[]> => {
+  const claims = await Promise.all(triggered.map(async ({ alert }) => {
+    const { data, error } = await supabase
+      .from('alerts')
+      .update({ triggered_at: triggeredAt })
+      .eq('id', alert.id)
+      .or(getAlertClaimFilter(alert, triggeredAt))
+      .select('id');
+    if (error) {
+      console.error(`Failed to save triggered state for alert ${alert.id}:`, error);
+      return false;
+    }
+    return (data || []).length > 0;
+  }));
+  return triggered.filter((_, i) => claims[i]);
+};
+
+const getItems = async (gameMode: GameMode): Promise<Record<string, Item>> => {
+  if (!itemsByGameMode[gameMode]) {
+    const itemList = await fetchItemMapping();
+    itemsByGameMode[gameMode] = Object.fromEntries(itemList.map(item => [item.id, item]));
+    console.log(`Loaded ${itemList.length} ${gameMode} items.`);
+  }
+  return itemsByGameMode[gameMode];
+};
+
+const refreshTimeseries = async (gameMode: GameMode, alerts: PriceAlert[], now: number) => {
+  const staleKeys = new Set<string>();
+  alerts.forEach(alert => {
+    getRequiredTimesteps(alert).forEach(timestep => {
+      const key = `${gameMode}:${alert.item_id}:${timestep}`;
+      const cached = timeseriesCache[key];
+      if (!cached || now - cached.fetchedAt >= pollIntervalMs) {
+        staleKeys.add(key);
+      }
+    });
+  });
+
+  await Promise.allSettled([...staleKeys].map(async key => {
+    const [, itemId, timestep] = key.split(':');
+    try {
+      const data = await fetchTimeseries(parseInt(itemId, 10), timestep as AlertTimestep);
+      timeseriesCache[key] = { fetchedAt: now, data: data.sort((a, b) => a.timestamp - b.timestamp) };
+    } catch (err) {
+      console.error(`Failed to fetch ${gameMode} timeseries for alert item ${itemId}:`, err);
+    }
+  }));
+};
+
+/**
+ * Evaluates one game mode's armed alerts against that mode's latest prices.
+ * Modes must be evaluated one at a time, as the API client's game mode is global.
+ */
+const evaluateGameMode = async (gameMode: GameMode, alerts: PriceAlert[], now: number): Promise<FiredAlert[]> => {
+  setGameMode(gameMode);
+  const [items, latestPrices] = await Promise.all([getItems(gameMode), fetchLatestPrices()]);
+  await refreshTimeseries(gameMode, alerts, now);
+
+  return alerts.flatMap(alert => {
+    const latestPrice: LatestPrice | undefined = latestPrices[alert.item_id];
+    const evaluation = evaluateAlert(alert, {
+      item: items[alert.item_id],
+      latestPrice,
+      timeseries: {
+        '5m': timeseriesCache[`${gameMode}:${alert.item_id}:5m`]?.data,
+        '1h': timeseriesCache[`${gameMode}:${alert.item_id}:1h`]?.data,
+      },
+    });
+    if (!evaluation.isTriggered) return [];
+    return [{
+      alert,
+      item: items[alert.item_id] ?? { id: alert.item_id, name: `Item ${alert.item_id}` },
+      matchedRules: evaluation.matchedRules,
+      price: getObservedPrice(evaluation.matchedRules, latestPrice),
+    }];
+  });
+};
+
+/**
+ * Runs one poll: evaluates every armed alert against the latest prices,
+ * records the ones that fire and sends them to their owners' webhooks.
+ */
+const runCycle = async () => {
+  const alerts = await fetchAllAlerts();
+  const now = Date.now();
+  const armedAlerts = alerts.filter(alert => isAlertArmed(alert, now));
+
+  const alertsByGameMode: Partial<Record<GameMode, PriceAlert[]>> = {};
+  armedAlerts.forEach(alert => {
+    (alertsByGameMode[alert.game_mode] ??= []).push(alert);
+  });
+
+  const fired: FiredAlert[] = [];
+  for (const [gameMode, modeAlerts] of Object.entries(alertsByGameMode) as [GameMode, PriceAlert[]][]) {
+    try {
+      fired.push(...await evaluateGameMode(gameMode, modeAlerts, now));
+    } catch (err) {
+      console.error(`Failed to evaluate ${gameMode} alerts:`, err);
+    }
+  }
+
+  const triggeredAt = new Date().toISOString();
+  const triggered = fired.length > 0 ? await claimTriggers(fired, triggeredAt) : [];
+  console.log(`[${triggeredAt}] Evaluated ${armedAlerts.length} of ${alerts.length} alerts, ${triggered.length} fired${fired.length > triggered.length ? ` (${fired.length - triggered.length} already fired elsewhere)` : ''}.`);
+  if (triggered.length === 0) return;
+
+  const { error: insertError } = await supabase
+    .from('alert_triggers')
+    .insert(triggered.map(({ alert, matchedRules, price }) => ({
+      alert_id: alert.id,
+      user_id: alert.user_id,
+      item_id: alert.item_id,
+      game_mode: alert.game_mode,
+      price,
+      matched_rules: matchedRules,
+      triggered_at: triggeredAt,
+    })));
+  if (insertError) console.error('Failed to record alert triggers:', insertError);
+
+  // Group payloads by owner so each user's alerts only go to their own webhooks.
+  const payloadsByUser: Record<string, AlertWebhookPayload[]> = {};
+  triggered.forEach(({ alert, item, matchedRules, price }) => {
+    console.log(`  [${alert.game_mode}] ${item.name}: ${matchedRules.map(describeAlertRule).join(', ')} (now ${price?.toLocaleString() ?? 'N/A'} gp)`);
+    (payloadsByUser[alert.user_id] ??= []).push(buildAlertWebhookPayload({
+      alertId: alert.id,
+      gameMode: alert.game_mode,
+      item,
+      price,
+      matchedRules,
+      triggeredAt,
+    }, appUrl));
+  });
+
+  const webhooksByUser = await fetchWebhooksByUser(Object.keys(payloadsByUser));
+  await Promise.all(Object.entries(payloadsByUser).map(([userId, payloads]) =>
+    dispatchAlertWebhooks(webhooksByUser[userId] ?? [], payloads)
+  ));
+};
+
+const main = async () => {
+  const runOnce = process.argv.includes('--once');
+  console.log(`Polling every ${pollIntervalMs / 1000}s.`);
+
+  // Chain cycles with setTimeout so a slow cycle never overlaps the next one.
+  const poll = async () => {
+    try {
+      await runCycle();
+    } catch (err) {
+      console.error('Alert evaluation cycle failed:', err);
+    }
+    if (!runOnce) setTimeout(poll, pollIntervalMs);
+  };
+  await poll();
+};
+
+main().catch(err => {
+  console.error('Alert worker failed to start:', err);
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// Records wiki API responses for the offline fixture price provider
+// (services/priceProvider.ts). Run the app with `?provider=fixtures` or
+// PRICE_PROVIDER=fixtures to use them.
+//
+// Usage: npm run fixtures:record -- <itemId> [<itemId> ...]
+//
+// The mapping, latest prices and market snapshots are trimmed to the recorded items to keep the
+// fixtures small. Set GAME_MODE (osrs, dmm or fsw; default osrs) to record
+// another game mode's feed, or OSRS_WIKI_API_BASE_URL to record from somewhere else.
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { OSRS_WIKI_API_BASE_URL, DEFAULT_GAME_MODE } from '../constants';
+import { SNAPSHOT_INTERVAL_SECONDS } from '../services/osrsWikiApi';
+
+const TIMESTEPS = ['5m', '1h', '6h'] as const;
+const SNAPSHOT_INTERVALS = ['5m', '1h'] as const;
+const EARLIER_SNAPSHOTS = 3;
+
+type MarketSnapshotResponse = { data: Record<string, unknown>; timestamp: number };
+
+const baseUrl = process.env.OSRS_WIKI_API_BASE_URL || OSRS_WIKI_API_BASE_URL;
+const gameMode = process.env.GAME_MODE || DEFAULT_GAME_MODE;
+const fixturesDir = path.resolve(import.meta.dirname, '../public/fixtures', gameMode);
+
+const fetchJson = async <T,>(endpoint: string): Promise<T> => {
+  const response = await fetch(`${baseUrl}/${gameMode}${endpoint}`, {
+    headers: { 'User-Agent': process.env.USER_AGENT || 'GE Pulse fixture recorder' },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${endpoint}: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const writeFixture = async (relativePath: string, data: unknown) => {
+  const filePath = path.join(fixturesDir, relativePath);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(data));
+  console.log(`Wrote ${gameMode}/${relativePath}`);
+};
+
+const main = async () => {
+  const itemIds = process.argv.slice(2).map(arg => parseInt(arg, 10)).filter(id => !isNaN(id));
+  if (itemIds.length === 0) {
+    console.error('Usage: npm run fixtures:record -- <itemId> [<itemId> ...]');
+    process.exit(1);
+  }
+
+  const mapping = await fetchJson<{ id: number }[]>('/mapping');
+  await writeFixture('mapping.json', mapping.filter(item => itemIds.includes(item.id)));
+
+  const latest = await fetchJson<{ data: Record<string, unknown> }>('/latest');
+  await writeFixture('latest.json', {
+    data: Object.fromEntries(itemIds.filter(id => latest.data[id]).map(id => [id, latest.data[id]])),
+  });
+
+  // The latest snapshot of each interval plus the windows before it, for the market movers page.
+  const trimSnapshot = (snapshot: MarketSnapshotResponse) => ({
+    data: Object.fromEntries(itemIds.filter(id => snapshot.data[id]).map(id => [id, snapshot.data[id]])),
+    timestamp: snapshot.timestamp,
+  });
+  for (const interval of SNAPSHOT_INTERVALS) {
+    const snapshot = await fetchJson<MarketSnapshotResponse>(`/${interval}`);
+    await writeFixture(`snapshots/${interval}.json`, trimSnapshot(snapshot));
+    for (let i = 1; i <= EARLIER_SNAPSHOTS; i++) {
+      const timestamp = snapshot.timestamp - i * SNAPSHOT_INTERVAL_SECONDS[interval];
+      const earlier = await fetchJson<MarketSnapshotResponse>(`/${interval}?timestamp=${timestamp}`);
+      await writeFixture(`snapshots/${interval}-${timestamp}.json`, trimSnapshot(earlier));
+    }
+  }
+
+  for (const id of itemIds) {
+    for (const timestep of TIMESTEPS) {
+      const timeseries = await fetchJson<unknown>(`/timeseries?timestep=${timestep}&id=${id}`);
+      await writeFixture(`timeseries/${id}-${timestep}.json`, timeseries);
+    }
+  }
+};
+
+main().catch(err => {
+  console.error('Failed to record fixtures:', err);
+  process.exit(1);
+});
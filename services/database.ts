@@ -1,18 +1,21 @@
 
 
 import { supabase } from './supabase';
-import type { Profile, Investment } from '../types';
+import { getAlertClaimFilter } from '../utils/alerts';
+import type { Profile, ProfileUpdate, AlertWebhook, AlertWebhookSettings, Investment, InvestmentSale, InvestmentUpdate, PriceAlert, PriceAlertSettings, PriceAlertUpdate, LocalPriceAlert, AlertTrigger, GameMode } from '../types';
 
 /**
- * Fetches the item IDs from the current user's watchlist.
+ * Fetches the item IDs from the current user's watchlist for a game mode.
  * @param userId The ID of the user.
+ * @param gameMode The game mode the watchlist belongs to.
  * @returns A promise that resolves to an array of item IDs.
  */
-export const fetchUserWatchlist = async (userId: string): Promise<number[]> => {
+export const fetchUserWatchlist = async (userId: string, gameMode: GameMode): Promise<number[]> => {
     const { data, error } = await supabase
         .from('watchlists')
         .select('item_id')
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode);
 
     if (error) {
         console.error('Error fetching watchlist:', error);
@@ -26,12 +29,13 @@ export const fetchUserWatchlist = async (userId: string): Promise<number[]> => {
  * Adds a new item to the user's watchlist in the database.
  * @param userId The ID of the user.
  * @param itemId The ID of the item to add.
+ * @param gameMode The game mode the watchlist belongs to.
  * @returns A promise that resolves when the operation is complete.
  */
-export const addToWatchlist = async (userId: string, itemId: number) => {
+export const addToWatchlist = async (userId: string, itemId: number, gameMode: GameMode) => {
     const { error } = await supabase
         .from('watchlists')
-        .insert({ user_id: userId, item_id: itemId });
+        .insert({ user_id: userId, item_id: itemId, game_mode: gameMode });
 
     if (error) {
         console.error('Error adding to watchlist:', error);
@@ -43,13 +47,14 @@ export const addToWatchlist = async (userId: string, itemId: number) => {
  * Removes an item from the user's watchlist in the database.
  * @param userId The ID of the user.
  * @param itemId The ID of the item to remove.
+ * @param gameMode The game mode the watchlist belongs to.
  * @returns A promise that resolves when the operation is complete.
  */
-export const removeFromWatchlist = async (userId: string, itemId: number) => {
+export const removeFromWatchlist = async (userId: string, itemId: number, gameMode: GameMode) => {
     const { error } = await supabase
         .from('watchlists')
         .delete()
-        .match({ user_id: userId, item_id: itemId });
+        .match({ user_id: userId, item_id: itemId, game_mode: gameMode });
 
     if (error) {
         console.error('Error removing from watchlist:', error);
@@ -65,7 +70,7 @@ export const removeFromWatchlist = async (userId: string, itemId: number) => {
 export const getProfile = async (userId: string): Promise<Profile | null> => {
     const { data, error } = await supabase
       .from('profiles')
-      .select('*')
+      .select('id, username, email')
       .eq('id', userId)
       .single();
 
@@ -84,9 +89,10 @@ export const getProfile = async (userId: string): Promise<Profile | null> => {
  * Fetches a user's profile and their watchlist by their unique username.
  * This is done in two steps to avoid type issues with relational queries.
  * @param username The username of the user.
+ * @param gameMode The game mode whose watchlist is included.
  * @returns A promise that resolves to the user's profile with watchlist data, or null if not found.
  */
-export const getProfileByUsername = async (username: string): Promise<Profile | null> => {
+export const getProfileByUsername = async (username: string, gameMode: GameMode): Promise<Profile | null> => {
     // Step 1: Fetch the profile data.
     const { data: profileData, error: profileError } = await supabase
       .from('profiles')
@@ -108,7 +114,8 @@ export const getProfileByUsername = async (username: string): Promise<Profile |
     const { data: watchlistData, error: watchlistError } = await supabase
       .from('watchlists')
       .select('item_id')
-      .eq('user_id', profileData.id);
+      .eq('user_id', profileData.id)
+      .eq('game_mode', gameMode);
       
     if (watchlistError) {
         console.error(`Error fetching watchlist for ${username}:`, watchlistError);
@@ -132,7 +139,7 @@ export const getProfileByUsername = async (username: string): Promise<Profile |
  * @param updates An object containing the profile fields to update.
  * @returns A promise that resolves when the operation is complete.
  */
-export const updateProfile = async (userId: string, updates: { username: string }) => {
+export const updateProfile = async (userId: string, updates: ProfileUpdate) => {
     const { error } = await supabase
       .from('profiles')
       .update(updates)
@@ -149,15 +156,17 @@ export const updateProfile = async (userId: string, updates: { username: string
 };
 
 /**
- * Fetches all investments for a user.
+ * Fetches all investments for a user in a game mode.
  * @param userId The ID of the user.
+ * @param gameMode The game mode the investments were made in.
  * @returns A promise that resolves to an array of investments.
  */
-export const fetchUserInvestments = async (userId: string): Promise<Investment[]> => {
+export const fetchUserInvestments = async (userId: string, gameMode: GameMode): Promise<Investment[]> => {
     const { data, error } = await supabase
         .from('investments')
         .select('*')
         .eq('user_id', userId)
+        .eq('game_mode', gameMode)
         .order('purchase_date', { ascending: false });
 
     if (error) {
@@ -172,7 +181,7 @@ export const fetchUserInvestments = async (userId: string): Promise<Investment[]
  * @param investmentData The investment data to insert.
  * @returns A promise that resolves to the newly created investment.
  */
-export const addInvestment = async (investmentData: Omit<Investment, 'id' | 'created_at'> & { created_at?: string }): Promise<Investment> => {
+export const addInvestment = async (investmentData: Omit<Investment, 'id' | 'created_at' | 'parent_id'> & { created_at?: string; parent_id?: string | null }): Promise<Investment> => {
     const { data, error } = await supabase
         .from('investments')
         .insert(investmentData)
@@ -213,6 +222,113 @@ export const closeInvestment = async (investmentId: string, sellData: { sell_pri
     return data;
 };
 
+// Rows per insert request when importing, to keep each request small.
+const INVESTMENT_IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Thrown when an import fails part-way. The first `savedCount` rows were saved
+ * and must not be inserted again on a retry.
+ */
+export class InvestmentImportError extends Error {
+    savedCount: number;
+
+    constructor(savedCount: number, totalCount: number, cause: { message: string }) {
+        super(`Saved ${savedCount.toLocaleString()} of ${totalCount.toLocaleString()} investments before the import failed: ${cause.message}`);
+        this.name = 'InvestmentImportError';
+        this.savedCount = savedCount;
+    }
+}
+
+/**
+ * Adds many investments at once, e.g. from a spreadsheet import. Rows are
+ * inserted in batches, in order; if a batch fails, the batches before it stay
+ * saved and an InvestmentImportError says how many.
+ * @param investmentsData The investments to insert.
+ * @returns A promise that resolves to the newly created investments.
+ */
+export const addInvestments = async (investmentsData: (Omit<Investment, 'id' | 'created_at' | 'parent_id'> & { parent_id?: string | null })[]): Promise<Investment[]> => {
+    const created: Investment[] = [];
+    for (let i = 0; i < investmentsData.length; i += INVESTMENT_IMPORT_BATCH_SIZE) {
+        const { data, error } = await supabase
+            .from('investments')
+            .insert(investmentsData.slice(i, i + INVESTMENT_IMPORT_BATCH_SIZE))
+            .select();
+
+        if (error) {
+            console.error(`Error importing investments (saved ${created.length} of ${investmentsData.length}):`, error);
+            throw new InvestmentImportError(created.length, investmentsData.length, error);
+        }
+        created.push(...(data || []));
+    }
+    return created;
+};
+
+/**
+ * Updates the purchase or sell details of an investment, e.g. to fix a typo.
+ * @param investmentId The ID of the investment to update.
+ * @param updates The fields to change.
+ * @returns A promise that resolves to the updated investment.
+ */
+export const updateInvestment = async (investmentId: string, updates: InvestmentUpdate): Promise<Investment> => {
+    const { data, error } = await supabase
+        .from('investments')
+        .update(updates)
+        .eq('id', investmentId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error updating investment:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to update investment: No data returned from update.');
+    }
+    return data;
+};
+
+/**
+ * Sells some or all of an open investment. Selling the whole quantity closes
+ * the investment itself. Selling part of it records the sold part as a new,
+ * closed investment linked to the original by `parent_id`, and the original
+ * stays open with the remaining quantity.
+ * @param investment The open investment to sell from.
+ * @param sale The quantity sold, sell price, sell date, and tax paid on the sold quantity.
+ * @returns A promise that resolves to the closed part and the remaining open part, if any.
+ */
+export const sellInvestment = async (investment: Investment, sale: InvestmentSale): Promise<{ sold: Investment; remaining: Investment | null }> => {
+    const { quantity, ...sellData } = sale;
+    if (quantity >= investment.quantity) {
+        return { sold: await closeInvestment(investment.id, sellData), remaining: null };
+    }
+
+    const sold = await addInvestment({
+        user_id: investment.user_id,
+        item_id: investment.item_id,
+        game_mode: investment.game_mode,
+        quantity,
+        purchase_price: investment.purchase_price,
+        purchase_date: investment.purchase_date,
+        ...sellData,
+        parent_id: investment.id,
+    });
+
+    const { data, error } = await supabase
+        .from('investments')
+        .update({ quantity: investment.quantity - quantity })
+        .eq('id', investment.id)
+        .select()
+        .single();
+
+    if (error || !data) {
+        // Don't leave the sold part behind when the original lot can't be reduced.
+        await deleteInvestment(sold.id).catch(deleteError => console.error('Error removing partial sale:', deleteError));
+        console.error('Error reducing investment quantity:', error);
+        throw error ?? new Error('Failed to sell investment: No data returned from update.');
+    }
+    return { sold, remaining: data };
+};
+
 /**
  * Deletes a single investment record from the database.
  * This is an irreversible action.
@@ -233,18 +349,298 @@ export const deleteInvestment = async (investmentId: string): Promise<void> => {
 };
 
 /**
- * Deletes all investment records for a specific user.
+ * Deletes all investment records for a specific user in a game mode.
  * This is an irreversible action.
  * @param userId The ID of the user whose portfolio will be cleared.
+ * @param gameMode The game mode whose portfolio will be cleared.
  */
-export const clearUserInvestments = async (userId: string): Promise<void> => {
+export const clearUserInvestments = async (userId: string, gameMode: GameMode): Promise<void> => {
     const { error } = await supabase
         .from('investments')
         .delete()
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode);
 
     if (error) {
         console.error('Error clearing investments:', error);
         throw error;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Fetches all price alerts for a user in a game mode.
+ * @param userId The ID of the user.
+ * @param gameMode The game mode the alerts watch.
+ * @returns A promise that resolves to an array of alerts, newest first.
+ */
+export const fetchUserAlerts = async (userId: string, gameMode: GameMode): Promise<PriceAlert[]> => {
+    const { data, error } = await supabase
+        .from('alerts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching alerts:', error);
+        throw error;
+    }
+    return data || [];
+};
+
+/**
+ * Adds a new price alert to the database.
+ * @param alertData The alert data to insert.
+ * @returns A promise that resolves to the newly created alert.
+ */
+export const addAlert = async (alertData: PriceAlertSettings & Pick<PriceAlert, 'user_id' | 'item_id' | 'game_mode'>): Promise<PriceAlert> => {
+    const { data, error } = await supabase
+        .from('alerts')
+        .insert(alertData)
+        .select()
+        .single(); // Return the newly created row
+
+    if (error) {
+        console.error('Error adding alert:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to add alert: No data returned from insert.');
+    }
+    return data;
+};
+
+/**
+ * Updates an existing price alert, e.g. to mark it as triggered, re-arm or snooze it.
+ * @param alertId The ID of the alert to update.
+ * @param updates The alert fields to update.
+ * @returns A promise that resolves to the updated alert.
+ */
+export const updateAlert = async (alertId: string, updates: PriceAlertUpdate): Promise<PriceAlert> => {
+    const { data, error } = await supabase
+        .from('alerts')
+        .update(updates)
+        .eq('id', alertId)
+        .select()
+        .single(); // Return the updated row
+
+    if (error) {
+        console.error('Error updating alert:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to update alert: No data returned from update.');
+    }
+    return data;
+};
+
+/**
+ * Marks an alert as fired, but only if it is still armed in the database.
+ * Alerts are evaluated both in the browser and by the alert worker, so only
+ * the one that claims a fire should record and deliver it.
+ * @param alert The alert as it was evaluated.
+ * @param triggeredAt When the alert fired, as an ISO 8601 string.
+ * @returns Whether this call claimed the fire, and the alert as now stored
+ * (null if it has been deleted).
+ */
+export const claimAlertTrigger = async (alert: PriceAlert, triggeredAt: string): Promise<{ claimed: boolean; alert: PriceAlert | null }> => {
+    const { data, error } = await supabase
+        .from('alerts')
+        .update({ triggered_at: triggeredAt })
+        .eq('id', alert.id)
+        .or(getAlertClaimFilter(alert, triggeredAt))
+        .select();
+
+    if (error) {
+        console.error('Error claiming alert trigger:', error);
+        throw error;
+    }
+    if (data && data.length > 0) {
+        return { claimed: true, alert: data[0] };
+    }
+
+    // Someone else fired it first; return the stored row so the caller stops treating it as armed.
+    const { data: storedAlert, error: fetchError } = await supabase
+        .from('alerts')
+        .select('*')
+        .eq('id', alert.id)
+        .maybeSingle();
+
+    if (fetchError) {
+        console.error('Error fetching claimed alert:', fetchError);
+        throw fetchError;
+    }
+    return { claimed: false, alert: storedAlert };
+};
+
+/**
+ * Deletes a single price alert from the database.
+ * @param alertId The UUID of the alert to delete.
+ */
+export const deleteAlert = async (alertId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('alerts')
+        .delete()
+        .eq('id', alertId);
+
+    if (error) {
+        console.error('Error deleting alert:', error);
+        throw error;
+    }
+};
+
+/**
+ * Copies alerts that were stored in the browser's localStorage (before alerts
+ * were synced) into the user's account.
+ * @param userId The ID of the user who owns the alerts.
+ * @param localAlerts The alerts read from localStorage.
+ * @returns A promise that resolves to the newly created alerts.
+ */
+export const migrateLocalAlerts = async (userId: string, localAlerts: LocalPriceAlert[]): Promise<PriceAlert[]> => {
+    if (localAlerts.length === 0) return [];
+
+    const rows = localAlerts.map(alert => ({
+        user_id: userId,
+        item_id: alert.itemId,
+        game_mode: 'osrs' as const, // Local alerts predate game modes
+        // Local alerts were a single fixed-price rule on the instant-buy price
+        rules: [{ type: 'price' as const, condition: alert.condition, target_price: alert.targetPrice, price_type: 'high' as const }],
+        match: 'all' as const,
+        triggered_at: alert.triggeredAt ? new Date(alert.triggeredAt).toISOString() : null,
+    }));
+
+    const { data, error } = await supabase
+        .from('alerts')
+        .insert(rows)
+        .select();
+
+    if (error) {
+        console.error('Error migrating local alerts:', error);
+        throw error;
+    }
+    return data || [];
+};
+
+/**
+ * Fetches the trigger history of all of a user's alerts in a game mode.
+ * @param userId The ID of the user.
+ * @param gameMode The game mode the alerts watch.
+ * @returns A promise that resolves to the trigger log, newest first.
+ */
+export const fetchUserAlertTriggers = async (userId: string, gameMode: GameMode): Promise<AlertTrigger[]> => {
+    const { data, error } = await supabase
+        .from('alert_triggers')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('game_mode', gameMode)
+        .order('triggered_at', { ascending: false });
+
+    if (error) {
+        console.error('Error fetching alert triggers:', error);
+        throw error;
+    }
+    return data || [];
+};
+
+/**
+ * Records one or more alert triggers in the trigger log.
+ * @param triggers The trigger entries to insert.
+ * @returns A promise that resolves to the newly created log entries.
+ */
+export const addAlertTriggers = async (triggers: Omit<AlertTrigger, 'id'>[]): Promise<AlertTrigger[]> => {
+    if (triggers.length === 0) return [];
+
+    const { data, error } = await supabase
+        .from('alert_triggers')
+        .insert(triggers)
+        .select();
+
+    if (error) {
+        console.error('Error adding alert triggers:', error);
+        throw error;
+    }
+    return data || [];
+};
+
+/**
+ * Fetches the signed-in user's alert webhooks. Row level security only lets
+ * users read their own webhooks, as the URLs are secrets.
+ * @param userId The ID of the user.
+ * @returns A promise that resolves to the webhooks, oldest first.
+ */
+export const fetchUserAlertWebhooks = async (userId: string): Promise<AlertWebhook[]> => {
+    const { data, error } = await supabase
+        .from('alert_webhooks')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error fetching alert webhooks:', error);
+        throw error;
+    }
+    return data || [];
+};
+
+/**
+ * Adds a webhook that receives the user's fired alerts.
+ * @param userId The ID of the user who owns the webhook.
+ * @param settings The webhook's name, URL, format and enabled state.
+ * @returns A promise that resolves to the newly created webhook.
+ */
+export const addAlertWebhook = async (userId: string, settings: AlertWebhookSettings): Promise<AlertWebhook> => {
+    const { data, error } = await supabase
+        .from('alert_webhooks')
+        .insert({ ...settings, user_id: userId })
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error adding alert webhook:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to add alert webhook: No data returned from insert.');
+    }
+    return data;
+};
+
+/**
+ * Updates an alert webhook, e.g. to enable or disable it.
+ * @param webhookId The ID of the webhook to update.
+ * @param updates The webhook fields to update.
+ * @returns A promise that resolves to the updated webhook.
+ */
+export const updateAlertWebhook = async (webhookId: string, updates: Partial<AlertWebhookSettings>): Promise<AlertWebhook> => {
+    const { data, error } = await supabase
+        .from('alert_webhooks')
+        .update(updates)
+        .eq('id', webhookId)
+        .select()
+        .single();
+
+    if (error) {
+        console.error('Error updating alert webhook:', error);
+        throw error;
+    }
+    if (!data) {
+        throw new Error('Failed to update alert webhook: No data returned from update.');
+    }
+    return data;
+};
+
+/**
+ * Deletes an alert webhook.
+ * @param webhookId The ID of the webhook to delete.
+ */
+export const deleteAlertWebhook = async (webhookId: string): Promise<void> => {
+    const { error } = await supabase
+        .from('alert_webhooks')
+        .delete()
+        .eq('id', webhookId);
+
+    if (error) {
+        console.error('Error deleting alert webhook:', error);
+        throw error;
+    }
+};
@@ -0,0 +1,46 @@
+// Thin wrapper around the browser Notification API. Every function is a no-op
+// when notifications are unsupported, so callers don't need to feature-detect.
+
+const isSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Asks the user for permission to show browser notifications, if they
+ * haven't already granted or denied it.
+ * @returns A promise that resolves to true if notifications are allowed.
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isSupported()) return false;
+  if (Notification.permission !== 'default') {
+    return Notification.permission === 'granted';
+  }
+  try {
+    const permission = await Notification.requestPermission();
+    return permission === 'granted';
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return false;
+  }
+};
+
+/**
+ * Shows a browser notification if the user has granted permission.
+ * @param title The notification title.
+ * @param options Body text, icon and an optional click handler.
+ */
+export const showBrowserNotification = (title: string, options: { body: string; icon?: string; onClick?: () => void }) => {
+  if (!isSupported() || Notification.permission !== 'granted') return;
+
+  try {
+    const notification = new Notification(title, { body: options.body, icon: options.icon });
+    if (options.onClick) {
+      notification.onclick = () => {
+        window.focus();
+        options.onClick?.();
+        notification.close();
+      };
+    }
+  } catch (error) {
+    // Some browsers (e.g. Android Chrome) only allow notifications from a service worker.
+    console.error('Failed to show notification:', error);
+  }
+};
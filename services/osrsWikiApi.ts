@@ -1,6 +1,7 @@
 
-import { OSRS_WIKI_API_BASE_URL } from '../constants';
-import type { Item, TimeseriesData, LatestPrice } from '../types';
+import { OSRS_WIKI_API_BASE_URL, DEFAULT_GAME_MODE } from '../constants';
+import type { Item, TimeseriesData, LatestPrice, GameMode, MarketSnapshot, MarketSnapshotPrice } from '../types';
+import { createRequestScheduler, isAbortError } from './requestScheduler';
 
 // The OSRS Wiki API is being called directly. The previously used CORS proxy
 // was causing 403 Forbidden errors. The API is expected to have CORS properly
@@ -8,32 +9,287 @@ import type { Item, TimeseriesData, LatestPrice } from '../types';
 // User-Agent is required, this header cannot be set from browser-side JavaScript.
 // The browser's default User-Agent and Origin headers should be sufficient.
 
-async function apiFetch<T,>(endpoint: string): Promise<T> {
-  const response = await fetch(`${OSRS_WIKI_API_BASE_URL}${endpoint}`);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`API Fetch Error for ${endpoint}:`, response.status, errorText);
-    throw new Error(`Failed to fetch ${endpoint}: ${response.statusText}`);
+// Overridable so the API can be pointed at a local mock (e.g. from the alert worker).
+// Outside the browser a descriptive User-Agent can and should be sent.
+let apiBaseUrl = OSRS_WIKI_API_BASE_URL;
+let apiHeaders: Record<string, string> = {};
+// Every request goes to the current game mode's feed, and is cached under its URL.
+let gameMode: GameMode = DEFAULT_GAME_MODE;
+
+/**
+ * Configures the API client. Only needed outside the browser app.
+ * @param options The base URL to request from (without the game mode) and an optional User-Agent header.
+ */
+export const configureApi = (options: { baseUrl?: string; userAgent?: string }) => {
+  if (options.baseUrl) apiBaseUrl = options.baseUrl.replace(/\/+$/, '');
+  if (options.userAgent) apiHeaders = { 'User-Agent': options.userAgent };
+};
+
+// All requests share one queue so e.g. a large watchlist doesn't fire dozens of
+// timeseries requests at once.
+const apiScheduler = createRequestScheduler({
+  maxConcurrency: 4,
+  maxRetries: 3,
+  baseDelayMs: 500,
+});
+
+export interface ApiRequestOptions<T> {
+  signal?: AbortSignal; // Cancels the request, e.g. when the user navigates away
+  onRevalidate?: (data: T) => void; // Called with fresh data if a stale cached copy was returned
+}
+
+/**
+ * Switches every following request to the given game mode's price feed.
+ */
+export const setGameMode = (mode: GameMode) => {
+  gameMode = mode;
+};
+
+const getApiUrl = (endpoint: string): string => `${apiBaseUrl}/${gameMode}${endpoint}`;
+
+// Takes a URL resolved with getApiUrl rather than an endpoint, so callers that
+// also cache the response resolve the game mode once and can't save one mode's
+// data under another's key if the mode changes mid-request.
+async function apiFetch<T,>(url: string, signal?: AbortSignal): Promise<T> {
+  return apiScheduler.request(url, { headers: apiHeaders }, async response => {
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`API Fetch Error for ${url}:`, response.status, errorText);
+      throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
+    }
+    const data: T = await response.json();
+    return data;
+  }, signal);
+}
+
+// --- Persistent Response Cache ---
+// Responses are cached in IndexedDB with a per-endpoint TTL. Within the TTL the
+// cached copy is returned without a request. Once stale, callers that pass an
+// `onRevalidate` callback get the stale copy immediately and the fresh data
+// later through the callback (stale-while-revalidate); other callers wait for
+// the network and only fall back to the stale copy if the request fails.
+// Outside the browser (e.g. the alert worker) there is no IndexedDB and every
+// call goes straight to the network.
+// Every item viewed adds entries, so the store is pruned: entries too old to be
+// worth falling back to are dropped on open, and once it holds more than
+// MAX_CACHE_ENTRIES the least recently fetched are evicted on write.
+
+const CACHE_DB_NAME = 'ge-pulse-api-cache';
+const CACHE_DB_VERSION = 2;
+const CACHE_STORE_NAME = 'responses';
+const CACHE_FETCHED_AT_INDEX = 'fetchedAt';
+const MAX_CACHE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+
+const MAPPING_TTL_MS = 24 * 60 * 60 * 1000; // The item list rarely changes
+const TIMESERIES_TTL_MS: Record<'5m' | '1h' | '6h', number> = {
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+};
+
+// The current snapshot is replaced every few minutes; historical ones never change.
+const LATEST_SNAPSHOT_TTL_MS = 60 * 1000;
+const HISTORICAL_SNAPSHOT_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  key: string;
+  data: T;
+  fetchedAt: number;
+}
+
+const pruneExpiredEntries = (db: IDBDatabase) => {
+  const transaction = db.transaction(CACHE_STORE_NAME, 'readwrite');
+  const expired = IDBKeyRange.upperBound(Date.now() - MAX_CACHE_AGE_MS);
+  const request = transaction.objectStore(CACHE_STORE_NAME).index(CACHE_FETCHED_AT_INDEX).openCursor(expired);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  transaction.onerror = () => console.error('Failed to prune API cache:', transaction.error);
+};
+
+// Deletes the least recently fetched entries once the store is over its limit.
+const evictOldestEntries = (store: IDBObjectStore) => {
+  const countRequest = store.count();
+  countRequest.onsuccess = () => {
+    let excess = countRequest.result - MAX_CACHE_ENTRIES;
+    if (excess <= 0) return;
+    const cursorRequest = store.index(CACHE_FETCHED_AT_INDEX).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+  };
+};
+
+let cacheDbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openCacheDb = (): Promise<IDBDatabase | null> => {
+  if (!cacheDbPromise) {
+    cacheDbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(CACHE_DB_NAME, CACHE_DB_VERSION);
+      request.onupgradeneeded = event => {
+        const store = event.oldVersion < 1
+          ? request.result.createObjectStore(CACHE_STORE_NAME, { keyPath: 'key' })
+          : request.transaction!.objectStore(CACHE_STORE_NAME);
+        if (event.oldVersion < 2) store.createIndex(CACHE_FETCHED_AT_INDEX, 'fetchedAt');
+      };
+      request.onsuccess = () => {
+        pruneExpiredEntries(request.result);
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        // e.g. private browsing modes that disable IndexedDB; caching is best-effort.
+        console.error('Failed to open API cache:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return cacheDbPromise;
+};
+
+const readCache = async <T,>(key: string): Promise<CacheEntry<T> | null> => {
+  const db = await openCacheDb();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(CACHE_STORE_NAME, 'readonly').objectStore(CACHE_STORE_NAME).get(key);
+    request.onsuccess = () => resolve(request.result ?? null);
+    request.onerror = () => resolve(null);
+  });
+};
+
+const writeCache = async <T,>(key: string, data: T): Promise<void> => {
+  const db = await openCacheDb();
+  if (!db) return;
+  const entry: CacheEntry<T> = { key, data, fetchedAt: Date.now() };
+  return new Promise(resolve => {
+    const transaction = db.transaction(CACHE_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(CACHE_STORE_NAME);
+    store.put(entry);
+    evictOldestEntries(store);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error(`Failed to cache response for ${key}:`, transaction.error);
+      resolve();
+    };
+  });
+};
+
+async function cachedApiFetch<T,>(endpoint: string, ttlMs: number, { signal, onRevalidate }: ApiRequestOptions<T> = {}): Promise<T> {
+  const url = getApiUrl(endpoint); // Also the cache key
+  const cached = await readCache<T>(url);
+  const fetchAndCache = async () => {
+    const data = await apiFetch<T>(url, signal);
+    await writeCache(url, data);
+    return data;
+  };
+
+  if (!cached) return fetchAndCache();
+  if (Date.now() - cached.fetchedAt < ttlMs) return cached.data;
+
+  if (onRevalidate) {
+    fetchAndCache()
+      .then(onRevalidate)
+      .catch(err => {
+        if (!isAbortError(err)) console.error(`Failed to revalidate ${endpoint}:`, err);
+      });
+    return cached.data;
+  }
+
+  try {
+    return await fetchAndCache();
+  } catch (err) {
+    if (isAbortError(err)) throw err;
+    console.error(`Falling back to cached ${endpoint}:`, err);
+    return cached.data;
   }
-  const data = await response.json();
-  return data;
 }
 
-export const fetchItemMapping = async (): Promise<Item[]> => {
-  const data = await apiFetch<Record<string, Omit<Item, 'id'>>>('/mapping');
-  return Object.entries(data).map(([id, itemData]) => ({
-    id: parseInt(id, 10),
-    ...itemData
-  }));
+export type RawItemMapping = Record<string, Omit<Item, 'id'>>;
+
+/**
+ * Converts a raw `/mapping` response into a list of items.
+ */
+export const parseItemMapping = (data: RawItemMapping): Item[] => Object.entries(data).map(([id, itemData]) => ({
+  id: parseInt(id, 10),
+  ...itemData
+}));
+
+/**
+ * Fetches the list of all tradeable items. Cached for a day.
+ */
+export const fetchItemMapping = async ({ signal, onRevalidate }: ApiRequestOptions<Item[]> = {}): Promise<Item[]> => {
+  const data = await cachedApiFetch<RawItemMapping>('/mapping', MAPPING_TTL_MS, {
+    signal,
+    onRevalidate: onRevalidate && (fresh => onRevalidate(parseItemMapping(fresh))),
+  });
+  return parseItemMapping(data);
 };
 
-export const fetchLatestPrices = async (): Promise<Record<string, LatestPrice>> => {
-  const response = await apiFetch<{data: Record<string, LatestPrice>}>('/latest');
+// Latest prices drive alert evaluation, so they are never cached.
+export const fetchLatestPrices = async (signal?: AbortSignal): Promise<Record<string, LatestPrice>> => {
+  const response = await apiFetch<{data: Record<string, LatestPrice>}>(getApiUrl('/latest'), signal);
   return response.data;
 };
 
-
-export const fetchTimeseries = async (id: number, timestep: '5m' | '1h' | '6h'): Promise<TimeseriesData[]> => {
-  const response = await apiFetch<{ data: TimeseriesData[] }>(`/timeseries?timestep=${timestep}&id=${id}`);
+/**
+ * Fetches an item's price history. Cached for one interval of the timestep.
+ */
+export const fetchTimeseries = async (id: number, timestep: '5m' | '1h' | '6h', { signal, onRevalidate }: ApiRequestOptions<TimeseriesData[]> = {}): Promise<TimeseriesData[]> => {
+  const response = await cachedApiFetch<{ data: TimeseriesData[] }>(`/timeseries?timestep=${timestep}&id=${id}`, TIMESERIES_TTL_MS[timestep], {
+    signal,
+    onRevalidate: onRevalidate && (fresh => onRevalidate(fresh.data)),
+  });
   return response.data;
 };
+
+export type SnapshotInterval = '5m' | '1h';
+
+export const SNAPSHOT_INTERVAL_SECONDS: Record<SnapshotInterval, number> = {
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+};
+
+export interface MarketSnapshotOptions extends ApiRequestOptions<MarketSnapshot> {
+  timestamp?: number; // Unix seconds; fetches the window starting at this time instead of the most recent one
+}
+
+/**
+ * Rounds a unix timestamp (in seconds) down to the start of its 5m or 1h window,
+ * as the API only accepts window boundaries.
+ */
+export const getSnapshotTimestamp = (interval: SnapshotInterval, timestamp: number): number => {
+  const seconds = SNAPSHOT_INTERVAL_SECONDS[interval];
+  return Math.floor(timestamp / seconds) * seconds;
+};
+
+const parseMarketSnapshot = (response: { data: Record<string, MarketSnapshotPrice>; timestamp: number }): MarketSnapshot => ({
+  timestamp: response.timestamp,
+  prices: response.data,
+});
+
+/**
+ * Fetches the average prices and volumes of every item over one 5m or 1h window,
+ * in a single request. Without a timestamp this is the most recent complete window.
+ */
+export const fetchMarketSnapshot = async (interval: SnapshotInterval, { timestamp, signal, onRevalidate }: MarketSnapshotOptions = {}): Promise<MarketSnapshot> => {
+  const endpoint = timestamp === undefined
+    ? `/${interval}`
+    : `/${interval}?timestamp=${getSnapshotTimestamp(interval, timestamp)}`;
+  const ttlMs = timestamp === undefined ? LATEST_SNAPSHOT_TTL_MS : HISTORICAL_SNAPSHOT_TTL_MS;
+  const response = await cachedApiFetch<{ data: Record<string, MarketSnapshotPrice>; timestamp: number }>(endpoint, ttlMs, {
+    signal,
+    onRevalidate: onRevalidate && (fresh => onRevalidate(parseMarketSnapshot(fresh))),
+  });
+  return parseMarketSnapshot(response);
+};
@@ -0,0 +1,89 @@
+import type { Item, TimeseriesData, LatestPrice, GameMode, MarketSnapshot, MarketSnapshotPrice } from '../types';
+import { DEFAULT_GAME_MODE } from '../constants';
+import { fetchItemMapping, fetchLatestPrices, fetchTimeseries, fetchMarketSnapshot, getSnapshotTimestamp, parseItemMapping, setGameMode } from './osrsWikiApi';
+import type { ApiRequestOptions, MarketSnapshotOptions, RawItemMapping, SnapshotInterval } from './osrsWikiApi';
+
+/**
+ * A source of item and price data. The app talks to a provider rather than
+ * the wiki API directly, so it can run against recorded data.
+ */
+export interface PriceProvider {
+  id: 'wiki' | 'fixtures';
+  label: string;
+  setGameMode: (mode: GameMode) => void; // Switches all following requests to the mode's price feed
+  fetchItemMapping: (options?: ApiRequestOptions<Item[]>) => Promise<Item[]>;
+  fetchLatestPrices: (signal?: AbortSignal) => Promise<Record<string, LatestPrice>>;
+  fetchTimeseries: (id: number, timestep: '5m' | '1h' | '6h', options?: ApiRequestOptions<TimeseriesData[]>) => Promise<TimeseriesData[]>;
+  fetchMarketSnapshot: (interval: SnapshotInterval, options?: MarketSnapshotOptions) => Promise<MarketSnapshot>;
+}
+
+/**
+ * Live prices from the OSRS Wiki API (cached and rate-limited by osrsWikiApi).
+ */
+export const wikiPriceProvider: PriceProvider = {
+  id: 'wiki',
+  label: 'OSRS Wiki',
+  setGameMode,
+  fetchItemMapping,
+  fetchLatestPrices,
+  fetchTimeseries,
+  fetchMarketSnapshot,
+};
+
+const FIXTURES_BASE_URL = '/fixtures';
+
+/**
+ * Creates a provider that serves recorded API responses from static JSON files:
+ * `<gameMode>/mapping.json`, `<gameMode>/latest.json`,
+ * `<gameMode>/timeseries/<id>-<timestep>.json` and `<gameMode>/snapshots/<interval>.json`
+ * (or `<interval>-<timestamp>.json` for historical snapshots), each in the same
+ * shape as the wiki API response. Record new ones with `npm run fixtures:record`.
+ * @param baseUrl Where the fixture files are served from.
+ */
+export const createFixturePriceProvider = (baseUrl: string = FIXTURES_BASE_URL): PriceProvider => {
+  let gameMode: GameMode = DEFAULT_GAME_MODE;
+
+  const fetchFixture = async <T,>(path: string, signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(`${baseUrl}/${gameMode}/${path}`, { signal });
+    if (!response.ok) {
+      throw new Error(`No fixture recorded at ${gameMode}/${path}`);
+    }
+    return response.json();
+  };
+
+  return {
+    id: 'fixtures',
+    label: 'Offline fixtures',
+    setGameMode: (mode) => {
+      gameMode = mode;
+    },
+    fetchItemMapping: async (options) => {
+      const data = await fetchFixture<RawItemMapping>('mapping.json', options?.signal);
+      return parseItemMapping(data);
+    },
+    fetchLatestPrices: async (signal) => {
+      const response = await fetchFixture<{ data: Record<string, LatestPrice> }>('latest.json', signal);
+      return response.data;
+    },
+    fetchTimeseries: async (id, timestep, options) => {
+      const response = await fetchFixture<{ data: TimeseriesData[] }>(`timeseries/${id}-${timestep}.json`, options?.signal);
+      return response.data;
+    },
+    fetchMarketSnapshot: async (interval, options) => {
+      const fileName = options?.timestamp === undefined
+        ? `${interval}.json`
+        : `${interval}-${getSnapshotTimestamp(interval, options.timestamp)}.json`;
+      const response = await fetchFixture<{ data: Record<string, MarketSnapshotPrice>; timestamp: number }>(`snapshots/${fileName}`, options?.signal);
+      return { timestamp: response.timestamp, prices: response.data };
+    },
+  };
+};
+
+/**
+ * Picks the provider from the `?provider=` query flag, falling back to the
+ * PRICE_PROVIDER environment variable and then the live wiki API.
+ */
+export const getConfiguredPriceProvider = (): PriceProvider => {
+  const requested = new URLSearchParams(window.location.search).get('provider') || process.env.PRICE_PROVIDER;
+  return requested === 'fixtures' ? createFixturePriceProvider() : wikiPriceProvider;
+};
@@ -0,0 +1,154 @@
+// A small request queue shared by all API calls. It limits how many requests
+// run at once, de-duplicates identical in-flight requests, retries rate-limited
+// (429) and server (5xx) errors with exponential backoff, and lets each caller
+// cancel through an AbortSignal.
+
+export interface RequestSchedulerOptions {
+  maxConcurrency: number;
+  maxRetries: number;
+  baseDelayMs: number; // Delay before the first retry; doubled on each further attempt
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500;
+
+const createAbortError = (): Error => new DOMException('The request was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts.
+ */
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const timeoutId = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(createAbortError());
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Works out how long to wait before retrying, preferring the server's
+ * Retry-After header (in seconds) when it sends one.
+ */
+const getRetryDelay = (response: Response | null, attempt: number, baseDelayMs: number): number => {
+  const retryAfter = parseInt(response?.headers.get('Retry-After') ?? '', 10);
+  if (!isNaN(retryAfter)) return retryAfter * 1000;
+  const jitter = Math.random() * baseDelayMs;
+  return baseDelayMs * 2 ** attempt + jitter;
+};
+
+/**
+ * Creates a request scheduler.
+ * @param options Concurrency and retry settings.
+ * @returns A `request` function that fetches a URL through the queue.
+ */
+export const createRequestScheduler = (options: RequestSchedulerOptions) => {
+  const waiting: (() => void)[] = [];
+  const inFlight = new Map<string, SharedRequest>();
+  let activeCount = 0;
+
+  // Resolves once a concurrency slot is free. Slots are handed out in FIFO order.
+  const acquireSlot = (signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    if (activeCount < options.maxConcurrency) {
+      activeCount++;
+      resolve();
+      return;
+    }
+    const start = () => {
+      signal.removeEventListener('abort', onAbort);
+      activeCount++;
+      resolve();
+    };
+    const onAbort = () => {
+      waiting.splice(waiting.indexOf(start), 1);
+      reject(createAbortError());
+    };
+    waiting.push(start);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+  const releaseSlot = () => {
+    activeCount--;
+    waiting.shift()?.();
+  };
+
+  const run = async <T,>(url: string, init: RequestInit, parse: (response: Response) => Promise<T>, signal: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquireSlot(signal);
+      let response: Response | null = null;
+      try {
+        response = await fetch(url, { ...init, signal });
+        if (!isRetryableStatus(response.status) || attempt >= options.maxRetries) {
+          return await parse(response);
+        }
+      } catch (error) {
+        // Network errors are retried; aborts and errors thrown by `parse` are not.
+        if (isAbortError(error) || response !== null || attempt >= options.maxRetries) throw error;
+      } finally {
+        releaseSlot();
+      }
+      // Wait outside the slot so other requests can use it in the meantime.
+      await sleep(getRetryDelay(response, attempt, options.baseDelayMs), signal);
+    }
+  };
+
+  /**
+   * Fetches a URL through the queue. Concurrent calls for the same URL share a
+   * single request; it is only cancelled once every caller has aborted.
+   * @param url The URL to fetch.
+   * @param init Extra fetch options (headers etc.).
+   * @param parse Turns the response into a result, throwing for unusable responses.
+   * @param signal Optional signal to cancel this caller's interest in the request.
+   */
+  const request = <T,>(url: string, init: Omit<RequestInit, 'signal'>, parse: (response: Response) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    let shared = inFlight.get(url);
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = run(url, init, parse, controller.signal).finally(() => {
+        if (inFlight.get(url) === newShared) inFlight.delete(url);
+      });
+      const newShared: SharedRequest = { promise, controller, subscribers: 0 };
+      inFlight.set(url, newShared);
+      shared = newShared;
+    }
+    const current = shared;
+    current.subscribers++;
+
+    if (!signal) return current.promise as Promise<T>;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        reject(createAbortError());
+        current.subscribers--;
+        if (current.subscribers === 0) {
+          current.controller.abort();
+          if (inFlight.get(url) === current) inFlight.delete(url);
+        }
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      (current.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  };
+
+  return { request };
+};
@@ -1,5 +1,6 @@
 
 import { createClient } from '@supabase/supabase-js';
+import type { AlertRule, GameMode, WebhookFormat } from '../types';
 
 // --- Database Type Definition ---
 // Provides type safety for Supabase queries. In a real project,
@@ -30,14 +31,17 @@ export type Database = {
           id: number
           item_id: number
           user_id: string
+          game_mode: GameMode
         }
         Insert: {
           user_id: string
           item_id: number
+          game_mode?: GameMode
         }
         Update: {
           user_id?: string
           item_id?: number
+          game_mode?: GameMode
         }
         Relationships: []
       }
@@ -46,38 +50,136 @@ export type Database = {
             id: string
             user_id: string
             item_id: number
+            game_mode: GameMode
             quantity: number
             purchase_price: number
             purchase_date: string
             sell_price: number | null
             sell_date: string | null
             tax_paid: number | null
+            parent_id: string | null
             created_at: string
           }
           Insert: {
             user_id: string
             item_id: number
+            game_mode?: GameMode
             quantity: number
             purchase_price: number
             purchase_date: string
             sell_price?: number | null
             sell_date?: string | null
             tax_paid?: number | null
+            parent_id?: string | null
             created_at?: string
           }
           Update: {
             user_id?: string
             item_id?: number
+            game_mode?: GameMode
             quantity?: number
             purchase_price?: number
             purchase_date?: string
             sell_price?: number | null
             sell_date?: string | null
             tax_paid?: number | null
+            parent_id?: string | null
             created_at?: string
           }
           Relationships: []
       }
+      alerts: {
+          Row: {
+            id: string
+            user_id: string
+            item_id: number
+            game_mode: GameMode
+            rules: AlertRule[]
+            match: 'all' | 'any'
+            mode: 'once' | 'repeat'
+            cooldown_minutes: number
+            snoozed_until: string | null
+            expires_at: string | null
+            triggered_at: string | null
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            item_id: number
+            game_mode?: GameMode
+            rules: AlertRule[]
+            match?: 'all' | 'any'
+            mode?: 'once' | 'repeat'
+            cooldown_minutes?: number
+            snoozed_until?: string | null
+            expires_at?: string | null
+            triggered_at?: string | null
+            created_at?: string
+          }
+          Update: {
+            rules?: AlertRule[]
+            match?: 'all' | 'any'
+            mode?: 'once' | 'repeat'
+            cooldown_minutes?: number
+            snoozed_until?: string | null
+            expires_at?: string | null
+            triggered_at?: string | null
+          }
+          Relationships: []
+      }
+      alert_triggers: {
+          Row: {
+            id: string
+            alert_id: string
+            user_id: string
+            item_id: number
+            game_mode: GameMode
+            price: number | null
+            matched_rules: AlertRule[]
+            triggered_at: string
+          }
+          Insert: {
+            alert_id: string
+            user_id: string
+            item_id: number
+            game_mode?: GameMode
+            price?: number | null
+            matched_rules: AlertRule[]
+            triggered_at: string
+          }
+          Update: {
+            price?: number | null
+            matched_rules?: AlertRule[]
+            triggered_at?: string
+          }
+          Relationships: []
+      }
+      alert_webhooks: {
+          Row: {
+            id: string
+            user_id: string
+            name: string
+            url: string
+            format: WebhookFormat
+            enabled: boolean
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            name: string
+            url: string
+            format: WebhookFormat
+            enabled?: boolean
+            created_at?: string
+          }
+          Update: {
+            name?: string
+            url?: string
+            format?: WebhookFormat
+            enabled?: boolean
+          }
+          Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
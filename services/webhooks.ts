@@ -0,0 +1,136 @@
+import type { AlertWebhook, AlertRule, Item, GameMode } from '../types';
+import { describeAlertRule } from '../utils/alerts';
+import { GAME_MODES } from '../constants';
+
+/**
+ * The JSON body sent to 'json' webhooks when an alert fires.
+ * Discord webhooks receive the same data wrapped in an embed.
+ */
+export interface AlertWebhookPayload {
+  event: 'alert.triggered';
+  alert_id: string;
+  game_mode: GameMode;
+  item: {
+    id: number;
+    name: string;
+    url: string; // Deep link to the item page, e.g. https://example.com/#/item/4151
+  };
+  price: number | null;
+  rules: string[];
+  triggered_at: string;
+}
+
+export interface AlertWebhookEvent {
+  alertId: string;
+  gameMode: GameMode;
+  item: Pick<Item, 'id' | 'name'>;
+  price: number | null;
+  matchedRules: AlertRule[];
+  triggeredAt: string;
+}
+
+const DISCORD_EMBED_COLOR = 0x10b981; // Tailwind emerald-500, matching the app's accent colour
+
+/**
+ * Builds the deep link to an item page.
+ * @param appUrl The app's base URL, without a hash.
+ * @param itemId The ID of the item.
+ */
+export const getItemLink = (appUrl: string, itemId: number): string => `${appUrl}#/item/${itemId}`;
+
+/**
+ * Gets the base URL of the running app in the browser, e.g. "https://example.com/".
+ */
+export const getBrowserAppUrl = (): string => `${window.location.origin}${window.location.pathname}`;
+
+/**
+ * Builds the generic JSON payload for a fired alert.
+ * @param event The alert that fired.
+ * @param appUrl The app's base URL, used for the item link.
+ */
+export const buildAlertWebhookPayload = (event: AlertWebhookEvent, appUrl: string): AlertWebhookPayload => ({
+  event: 'alert.triggered',
+  alert_id: event.alertId,
+  game_mode: event.gameMode,
+  item: {
+    id: event.item.id,
+    name: event.item.name,
+    url: getItemLink(appUrl, event.item.id),
+  },
+  price: event.price,
+  rules: event.matchedRules.map(describeAlertRule),
+  triggered_at: event.triggeredAt,
+});
+
+/**
+ * Wraps a payload in Discord's webhook format, with the alert as a single embed.
+ * See https://discord.com/developers/docs/resources/webhook#execute-webhook
+ */
+const toDiscordBody = (payload: AlertWebhookPayload) => ({
+  username: 'GE Pulse',
+  embeds: [
+    {
+      title: `Price alert: ${payload.item.name}`,
+      url: payload.item.url,
+      description: payload.rules.join('\n'),
+      color: DISCORD_EMBED_COLOR,
+      fields: [
+        { name: 'Price', value: `${payload.price?.toLocaleString() ?? 'N/A'} gp`, inline: true },
+        { name: 'Item ID', value: String(payload.item.id), inline: true },
+        { name: 'Game mode', value: GAME_MODES.find(mode => mode.id === payload.game_mode)?.label ?? payload.game_mode, inline: true },
+      ],
+      timestamp: payload.triggered_at,
+    },
+  ],
+});
+
+/**
+ * Gets the request body a webhook will receive for a payload, in the webhook's format.
+ */
+export const formatWebhookBody = (webhook: Pick<AlertWebhook, 'format'>, payload: AlertWebhookPayload): object => {
+  return webhook.format === 'discord' ? toDiscordBody(payload) : payload;
+};
+
+/**
+ * Sends a payload to a single webhook.
+ * @throws An error if the request fails or the endpoint responds with a non-2xx status.
+ */
+export const sendWebhook = async (webhook: AlertWebhook, payload: AlertWebhookPayload): Promise<void> => {
+  const response = await fetch(webhook.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(formatWebhookBody(webhook, payload)),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook "${webhook.name}" responded with status ${response.status}`);
+  }
+};
+
+/**
+ * Delivers every payload to every enabled webhook. Failures are logged rather
+ * than thrown so one broken endpoint doesn't block the others.
+ */
+export const dispatchAlertWebhooks = async (webhooks: AlertWebhook[], payloads: AlertWebhookPayload[]): Promise<void> => {
+  const enabledWebhooks = webhooks.filter(webhook => webhook.enabled);
+  const results = await Promise.allSettled(
+    enabledWebhooks.flatMap(webhook => payloads.map(payload => sendWebhook(webhook, payload)))
+  );
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error('Failed to deliver alert webhook:', result.reason);
+    }
+  });
+};
+
+/**
+ * Builds an example payload for previewing and testing webhooks.
+ * @param appUrl The app's base URL, used for the item link.
+ */
+export const createSampleWebhookPayload = (appUrl: string): AlertWebhookPayload => buildAlertWebhookPayload({
+  alertId: 'test',
+  gameMode: 'osrs',
+  item: { id: 4151, name: 'Abyssal whip' },
+  price: 1_500_000,
+  matchedRules: [{ type: 'price', condition: 'below', target_price: 1_600_000, price_type: 'high' }],
+  triggeredAt: new Date().toISOString(),
+}, appUrl);
@@ -1,4 +1,8 @@
 
+// The wiki prices API has a separate feed for each game mode: the main game,
+// Deadman Mode and Fresh Start Worlds.
+export type GameMode = 'osrs' | 'dmm' | 'fsw';
+
 export interface Item {
   id: number;
   name: string;
@@ -19,6 +23,16 @@ export interface TimeseriesData {
   lowPriceVolume: number;
 }
 
+// One item's average prices and trade volumes over a single 5m or 1h window.
+export type MarketSnapshotPrice = Omit<TimeseriesData, 'timestamp'>;
+
+// Every traded item's prices for one window, from the bulk /5m and /1h endpoints.
+// Items that weren't traded in the window are missing from `prices`.
+export interface MarketSnapshot {
+  timestamp: number; // Start of the window, in unix seconds
+  prices: Record<string, MarketSnapshotPrice>;
+}
+
 export interface LatestPrice {
   high: number | null;
   highTime: number | null;
@@ -26,12 +40,102 @@ export interface LatestPrice {
   lowTime: number | null;
 }
 
+// Which price an alert rule watches: instant-buy (high) or instant-sell (low).
+export type AlertPriceType = 'high' | 'low';
+
+// Fires when the price crosses a fixed target.
+export interface PriceRule {
+  type: 'price';
+  condition: 'above' | 'below';
+  target_price: number;
+  price_type: AlertPriceType;
+}
+
+// Fires when the price has moved by at least `percent` over the last `window_hours`.
+export interface PercentChangeRule {
+  type: 'percent_change';
+  direction: 'up' | 'down' | 'either';
+  percent: number;
+  window_hours: number;
+  price_type: AlertPriceType;
+}
+
+// Fires when the flip margin (high - low - GE tax) crosses a threshold.
+export interface MarginRule {
+  type: 'margin';
+  condition: 'above' | 'below';
+  margin: number;
+}
+
+// Fires when the last hour's trade volume is `multiplier` times the recent hourly average.
+export interface VolumeSpikeRule {
+  type: 'volume_spike';
+  multiplier: number;
+  lookback_hours: number;
+}
+
+export type AlertRule = PriceRule | PercentChangeRule | MarginRule | VolumeSpikeRule;
+
 export interface PriceAlert {
+  id: string; // Using string for UUID from the database
+  user_id: string;
+  item_id: number;
+  game_mode: GameMode;
+  rules: AlertRule[];
+  match: 'all' | 'any'; // Whether every rule (AND) or any single rule (OR) must be met
+  mode: 'once' | 'repeat'; // One-shot alerts stay triggered until re-armed
+  cooldown_minutes: number; // Minimum time between two fires of a repeating alert
+  snoozed_until: string | null; // Stored as ISO 8601 format string
+  expires_at: string | null; // Stored as ISO 8601 format string
+  triggered_at: string | null; // Stored as ISO 8601 format string, set when the alert last fired
+  created_at: string;
+}
+
+// The user-editable settings of a price alert.
+export type PriceAlertSettings = Pick<PriceAlert, 'rules' | 'match'>;
+
+// The fields of a price alert that can be changed after it is created.
+export type PriceAlertUpdate = Partial<Omit<PriceAlert, 'id' | 'user_id' | 'item_id' | 'game_mode' | 'created_at'>>;
+
+// A log entry recorded every time an alert fires.
+export interface AlertTrigger {
+  id: string; // Using string for UUID from the database
+  alert_id: string;
+  user_id: string;
+  item_id: number;
+  game_mode: GameMode;
+  price: number | null; // The observed price when the alert fired
+  matched_rules: AlertRule[];
+  triggered_at: string; // Stored as ISO 8601 format string
+}
+
+// Alerts were stored in localStorage before they were synced to the database.
+// This shape is only used to migrate them on the user's first login.
+export interface LocalPriceAlert {
   itemId: number;
   targetPrice: number;
   condition: 'above' | 'below';
+  triggeredAt?: number | null;
 }
 
+export type WebhookFormat = 'discord' | 'json';
+
+// A destination that receives a POST whenever one of the user's alerts fires.
+// The URL is a secret (anyone with a Discord webhook URL can post to the
+// channel), so webhooks live in their own table that only the owner can read.
+export interface AlertWebhook {
+  id: string;
+  user_id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  created_at: string;
+}
+
+// The user-editable settings of a webhook.
+export type AlertWebhookSettings = Pick<AlertWebhook, 'name' | 'url' | 'format' | 'enabled'>;
+
 export interface Profile {
   id: string;
   username: string | null;
@@ -39,15 +143,30 @@ export interface Profile {
   watchlists?: { item_id: number }[];
 }
 
+export type ProfileUpdate = Partial<Pick<Profile, 'username'>>;
+
 export interface Investment {
   id: string; // Using string for UUID from the database
   user_id: string;
   item_id: number;
+  game_mode: GameMode;
   quantity: number;
   purchase_price: number;
   purchase_date: string; // Stored as ISO 8601 format string
   sell_price: number | null;
   sell_date: string | null; // Stored as ISO 8601 format string
   tax_paid: number | null;
+  parent_id: string | null; // The open lot this was sold from, when only part of it was sold
   created_at: string;
+}
+
+// The fields of an investment that can be corrected after it's saved.
+export type InvestmentUpdate = Partial<Pick<Investment, 'quantity' | 'purchase_price' | 'purchase_date' | 'sell_price' | 'sell_date' | 'tax_paid'>>;
+
+// Selling some or all of an open investment.
+export interface InvestmentSale {
+  quantity: number;
+  sell_price: number;
+  sell_date: string; // Stored as ISO 8601 format string
+  tax_paid: number; // GE tax on the sold quantity only
 }
\ No newline at end of file
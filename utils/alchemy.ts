@@ -0,0 +1,41 @@
+import type { Item, LatestPrice } from '../types';
+
+// High Level Alchemy takes 5 ticks (3 seconds) per cast.
+export const ALCHS_PER_HOUR = 1200;
+const BUY_LIMIT_HOURS = 4;
+
+export interface AlchProfit {
+  buyPrice: number; // Instant-buy price of the item
+  natureRunePrice: number;
+  profit: number; // Per cast: highalch - buyPrice - natureRunePrice
+  roiPercent: number;
+  alchsPerLimit: number; // Casts possible per 4-hour buy limit window, capped by cast speed
+  profitPerLimit: number;
+  profitPerHour: number; // Averaged over the buy limit window
+}
+
+/**
+ * Calculates the profit of buying an item at its instant-buy price and casting
+ * High Level Alchemy on it.
+ * @returns The profit, or null if the item or Nature rune price is missing.
+ */
+export const calculateAlchProfit = (item: Item, latestPrice: LatestPrice | undefined, natureRunePrice: number | null | undefined): AlchProfit | null => {
+  const buyPrice = latestPrice?.high;
+  if (!buyPrice || !natureRunePrice || !item.highalch) return null;
+
+  const profit = item.highalch - buyPrice - natureRunePrice;
+  // Items without a known buy limit are only limited by how fast they can be cast.
+  const alchsPerLimit = item.limit > 0
+    ? Math.min(item.limit, ALCHS_PER_HOUR * BUY_LIMIT_HOURS)
+    : ALCHS_PER_HOUR * BUY_LIMIT_HOURS;
+  const profitPerLimit = profit * alchsPerLimit;
+  return {
+    buyPrice,
+    natureRunePrice,
+    profit,
+    roiPercent: (profit / (buyPrice + natureRunePrice)) * 100,
+    alchsPerLimit,
+    profitPerLimit,
+    profitPerHour: profitPerLimit / BUY_LIMIT_HOURS,
+  };
+};
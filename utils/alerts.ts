@@ -0,0 +1,196 @@
+import type { Item, LatestPrice, TimeseriesData, PriceAlert, PriceAlertSettings, AlertRule, AlertPriceType, PercentChangeRule, VolumeSpikeRule } from '../types';
+import { calculateTaxAdjustedMargin } from './image';
+
+export type AlertTimestep = '5m' | '1h';
+
+/**
+ * Everything needed to evaluate the rules of a single alert. Timeseries data
+ * is only required for percent-change and volume-spike rules.
+ */
+export interface AlertEvaluationContext {
+  item: Item | undefined;
+  latestPrice: LatestPrice | undefined;
+  timeseries: Partial<Record<AlertTimestep, TimeseriesData[]>>;
+}
+
+export interface AlertEvaluation {
+  isTriggered: boolean;
+  matchedRules: AlertRule[];
+}
+
+// 'triggered' is a one-shot alert that has fired; 'cooling_down' is a
+// repeating alert that fired less than `cooldown_minutes` ago.
+export type AlertStatus = 'active' | 'cooling_down' | 'triggered' | 'snoozed' | 'expired';
+
+const PRICE_TYPE_LABELS: Record<AlertPriceType, string> = {
+  high: 'Instant-buy price',
+  low: 'Instant-sell price',
+};
+
+// The 5m timeseries covers ~30 hours, so longer windows use hourly data.
+const getPercentChangeTimestep = (rule: PercentChangeRule): AlertTimestep => rule.window_hours <= 24 ? '5m' : '1h';
+
+/**
+ * Gets the timeseries resolutions an alert needs to be evaluated.
+ * @param alert The alert to inspect.
+ * @returns The timesteps to fetch for the alert's item (may be empty).
+ */
+export const getRequiredTimesteps = (alert: PriceAlertSettings): AlertTimestep[] => {
+  const timesteps = new Set<AlertTimestep>();
+  alert.rules.forEach(rule => {
+    if (rule.type === 'percent_change') timesteps.add(getPercentChangeTimestep(rule));
+    if (rule.type === 'volume_spike') timesteps.add('1h');
+  });
+  return [...timesteps];
+};
+
+const getPercentChange = (rule: PercentChangeRule, context: AlertEvaluationContext): number | null => {
+  const currentPrice = context.latestPrice?.[rule.price_type];
+  const data = context.timeseries[getPercentChangeTimestep(rule)];
+  if (!currentPrice || !data || data.length === 0) return null;
+
+  const windowStart = Date.now() / 1000 - rule.window_hours * 60 * 60;
+  const priceKey = rule.price_type === 'high' ? 'avgHighPrice' : 'avgLowPrice';
+  const startPoint = data.find(d => d.timestamp >= windowStart && d[priceKey] !== null);
+  const startPrice = startPoint?.[priceKey];
+  if (!startPrice) return null;
+
+  return ((currentPrice - startPrice) / startPrice) * 100;
+};
+
+const isVolumeSpike = (rule: VolumeSpikeRule, context: AlertEvaluationContext): boolean => {
+  const data = context.timeseries['1h'];
+  if (!data || data.length < 2) return false;
+
+  const volumes = data.map(d => d.highPriceVolume + d.lowPriceVolume);
+  const latestVolume = volumes[volumes.length - 1];
+  const previousVolumes = volumes.slice(-1 - rule.lookback_hours, -1);
+  if (previousVolumes.length === 0) return false;
+
+  const averageVolume = previousVolumes.reduce((sum, v) => sum + v, 0) / previousVolumes.length;
+  return averageVolume > 0 && latestVolume >= averageVolume * rule.multiplier;
+};
+
+/**
+ * Works out an alert's current status from its mode, cooldown, snooze and expiry.
+ * @param alert The alert to inspect.
+ * @param now The current time in milliseconds (defaults to `Date.now()`).
+ */
+export const getAlertStatus = (alert: PriceAlert, now: number = Date.now()): AlertStatus => {
+  if (alert.expires_at && new Date(alert.expires_at).getTime() <= now) return 'expired';
+  if (alert.snoozed_until && new Date(alert.snoozed_until).getTime() > now) return 'snoozed';
+  if (alert.triggered_at) {
+    if (alert.mode === 'once') return 'triggered';
+    const cooldownEnd = new Date(alert.triggered_at).getTime() + alert.cooldown_minutes * 60 * 1000;
+    if (cooldownEnd > now) return 'cooling_down';
+  }
+  return 'active';
+};
+
+/**
+ * Checks whether an alert is allowed to fire right now.
+ */
+export const isAlertArmed = (alert: PriceAlert, now: number = Date.now()): boolean => getAlertStatus(alert, now) === 'active';
+
+/**
+ * A PostgREST `or` filter matching the alert's row only while it is still free
+ * to fire at `triggeredAt`: never fired, or (for repeating alerts) last fired
+ * before its cooldown began. Updating `triggered_at` through this filter claims
+ * the fire, so the browser and the alert worker never both send it.
+ */
+export const getAlertClaimFilter = (alert: PriceAlert, triggeredAt: string): string => {
+  if (alert.mode === 'once') return 'triggered_at.is.null';
+  const cooldownStart = new Date(new Date(triggeredAt).getTime() - alert.cooldown_minutes * 60 * 1000).toISOString();
+  return `triggered_at.is.null,triggered_at.lte."${cooldownStart}"`;
+};
+
+/**
+ * Checks whether a single alert rule is met.
+ * Rules whose data is unavailable (e.g. no recent trades) are never met.
+ */
+export const isRuleMet = (rule: AlertRule, context: AlertEvaluationContext): boolean => {
+  switch (rule.type) {
+    case 'price': {
+      const currentPrice = context.latestPrice?.[rule.price_type];
+      if (currentPrice === null || currentPrice === undefined) return false;
+      return rule.condition === 'above' ? currentPrice > rule.target_price : currentPrice < rule.target_price;
+    }
+    case 'percent_change': {
+      const change = getPercentChange(rule, context);
+      if (change === null) return false;
+      if (rule.direction === 'up') return change >= rule.percent;
+      if (rule.direction === 'down') return change <= -rule.percent;
+      return Math.abs(change) >= rule.percent;
+    }
+    case 'margin': {
+      if (!context.item) return false;
+      const margin = calculateTaxAdjustedMargin(context.item.name, context.latestPrice);
+      if (margin === null) return false;
+      return rule.condition === 'above' ? margin > rule.margin : margin < rule.margin;
+    }
+    case 'volume_spike':
+      return isVolumeSpike(rule, context);
+  }
+};
+
+/**
+ * Evaluates all of an alert's rules, combining them with AND ('all') or OR ('any').
+ * Alerts that are snoozed, expired, cooling down or (for one-shot alerts)
+ * already triggered never fire.
+ * @param alert The alert to evaluate.
+ * @param context The price data for the alert's item.
+ * @returns Whether the alert fires and which rules matched.
+ */
+export const evaluateAlert = (alert: PriceAlert, context: AlertEvaluationContext): AlertEvaluation => {
+  if (!isAlertArmed(alert) || alert.rules.length === 0) {
+    return { isTriggered: false, matchedRules: [] };
+  }
+
+  const matchedRules = alert.rules.filter(rule => isRuleMet(rule, context));
+  const isTriggered = alert.match === 'all'
+    ? matchedRules.length === alert.rules.length
+    : matchedRules.length > 0;
+
+  return { isTriggered, matchedRules };
+};
+
+/**
+ * Picks the price to record when an alert fires: the price watched by the
+ * first matched price-based rule, falling back to the instant-buy price.
+ */
+export const getObservedPrice = (matchedRules: AlertRule[], latestPrice: LatestPrice | undefined): number | null => {
+  const priceRule = matchedRules.find(rule => rule.type === 'price' || rule.type === 'percent_change');
+  const priceType: AlertPriceType = priceRule && 'price_type' in priceRule ? priceRule.price_type : 'high';
+  return latestPrice?.[priceType] ?? null;
+};
+
+/**
+ * Builds a short, human readable description of a rule,
+ * e.g. "Instant-buy price is below 1,200,000 gp".
+ */
+export const describeAlertRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case 'price':
+      return `${PRICE_TYPE_LABELS[rule.price_type]} is ${rule.condition} ${rule.target_price.toLocaleString()} gp`;
+    case 'percent_change': {
+      const direction = rule.direction === 'either' ? 'moves' : rule.direction === 'up' ? 'rises' : 'falls';
+      return `${PRICE_TYPE_LABELS[rule.price_type]} ${direction} ${rule.percent}% within ${rule.window_hours}h`;
+    }
+    case 'margin':
+      return `Tax-adjusted margin is ${rule.condition} ${rule.margin.toLocaleString()} gp`;
+    case 'volume_spike':
+      return `Hourly volume is ${rule.multiplier}x the ${rule.lookback_hours}h average`;
+  }
+};
+
+/**
+ * Describes all of an alert's rules joined with AND / OR.
+ */
+export const describeAlert = (alert: PriceAlertSettings): string => {
+  return alert.rules.map(describeAlertRule).join(alert.match === 'all' ? ' AND ' : ' OR ');
+};
+
+/**
+ * Gets the label for the price a rule watches, e.g. "Instant-buy price".
+ */
+export const getPriceTypeLabel = (priceType: AlertPriceType): string => PRICE_TYPE_LABELS[priceType];
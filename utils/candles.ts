@@ -0,0 +1,57 @@
+import type { TimeseriesData } from '../types';
+
+// A price candle over one bucket of timeseries points. It extends the
+// timeseries shape so volume and indicators work on candles too: the prices
+// are those of the bucket's last point and the volumes are summed.
+export interface Candle extends TimeseriesData {
+  open: number;
+  high: number; // Highest instant-buy average in the bucket
+  low: number; // Lowest instant-sell average in the bucket
+  close: number;
+}
+
+// The midpoint of a point's buy and sell averages, or whichever one exists.
+const getMidPrice = (d: TimeseriesData): number | null => {
+  if (d.avgHighPrice !== null && d.avgLowPrice !== null) return (d.avgHighPrice + d.avgLowPrice) / 2;
+  return d.avgHighPrice ?? d.avgLowPrice;
+};
+
+/**
+ * Groups timeseries points into candles of a fixed duration. The body runs from
+ * the first to the last mid price in the bucket and the wicks reach the highest
+ * buy and lowest sell averages. Buckets without any prices are skipped.
+ * @param data Points sorted by timestamp.
+ * @param bucketSeconds The duration of each candle.
+ */
+export const aggregateCandles = (data: TimeseriesData[], bucketSeconds: number): Candle[] => {
+  const buckets = new Map<number, TimeseriesData[]>();
+  data.forEach(d => {
+    const bucketStart = Math.floor(d.timestamp / bucketSeconds) * bucketSeconds;
+    const bucket = buckets.get(bucketStart);
+    if (bucket) bucket.push(d);
+    else buckets.set(bucketStart, [d]);
+  });
+
+  const candles: Candle[] = [];
+  buckets.forEach((points, bucketStart) => {
+    const midPrices = points.map(getMidPrice).filter((price): price is number => price !== null);
+    if (midPrices.length === 0) return;
+    const highs = points.map(d => d.avgHighPrice ?? d.avgLowPrice).filter((price): price is number => price !== null);
+    const lows = points.map(d => d.avgLowPrice ?? d.avgHighPrice).filter((price): price is number => price !== null);
+    const lastHigh = [...points].reverse().find(d => d.avgHighPrice !== null)?.avgHighPrice ?? null;
+    const lastLow = [...points].reverse().find(d => d.avgLowPrice !== null)?.avgLowPrice ?? null;
+
+    candles.push({
+      timestamp: bucketStart,
+      open: midPrices[0],
+      close: midPrices[midPrices.length - 1],
+      high: Math.max(...highs, ...midPrices),
+      low: Math.min(...lows, ...midPrices),
+      avgHighPrice: lastHigh,
+      avgLowPrice: lastLow,
+      highPriceVolume: points.reduce((sum, d) => sum + d.highPriceVolume, 0),
+      lowPriceVolume: points.reduce((sum, d) => sum + d.lowPriceVolume, 0),
+    });
+  });
+  return candles;
+};
@@ -0,0 +1,112 @@
+import type { TimeseriesData } from '../types';
+
+// One chart row: the timestamp plus each compared item's price, keyed by item id.
+export type ComparisonPoint = { timestamp: number } & Record<string, number | null>;
+
+export interface ComparisonStats {
+  startPrice: number | null;
+  endPrice: number | null;
+  changePercent: number | null;
+  volatilityPercent: number | null; // Standard deviation of the returns between points
+  volume: number; // Units traded over the whole range
+}
+
+export type ComparisonScale = 'absolute' | 'percent';
+
+export const MAX_COMPARE_ITEMS = 8;
+const COMPARE_HASH_PREFIX = '#/compare';
+
+/**
+ * The URL hash that opens the compare page with these items, e.g. '#/compare?ids=4151,11802'.
+ */
+export const getCompareHash = (itemIds: number[]): string => {
+  return itemIds.length > 0 ? `${COMPARE_HASH_PREFIX}?ids=${itemIds.join(',')}` : COMPARE_HASH_PREFIX;
+};
+
+/**
+ * Reads the item ids from a compare page hash, or returns null for any other hash.
+ */
+export const parseCompareHash = (hash: string): number[] | null => {
+  if (hash !== COMPARE_HASH_PREFIX && !hash.startsWith(`${COMPARE_HASH_PREFIX}?`)) return null;
+  const ids = new URLSearchParams(hash.substring(COMPARE_HASH_PREFIX.length + 1)).get('ids') ?? '';
+  const itemIds = ids.split(',').map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+  return [...new Set(itemIds)].slice(0, MAX_COMPARE_ITEMS);
+};
+
+const getPrices = (data: TimeseriesData[]): number[] => {
+  return data.map(d => d.avgHighPrice).filter((price): price is number => price !== null);
+};
+
+/**
+ * Lines up several items' timeseries on shared timestamps, carrying each item's
+ * last price over points where it didn't trade.
+ * @param seriesById Timeseries sorted by timestamp, keyed by item id.
+ * @param scale 'percent' rebases every item to 100 at its first price in the range.
+ */
+export const mergeComparisonSeries = (seriesById: Record<string, TimeseriesData[]>, scale: ComparisonScale): ComparisonPoint[] => {
+  const ids = Object.keys(seriesById);
+  const pricesByTimestamp = new Map<number, Record<string, number | null>>();
+  ids.forEach(id => {
+    seriesById[id].forEach(d => {
+      const row = pricesByTimestamp.get(d.timestamp) ?? {};
+      row[id] = d.avgHighPrice;
+      pricesByTimestamp.set(d.timestamp, row);
+    });
+  });
+
+  const lastPrices: Record<string, number | null> = {};
+  const basePrices: Record<string, number | null> = {};
+  return [...pricesByTimestamp.keys()].sort((a, b) => a - b).map(timestamp => {
+    const row = pricesByTimestamp.get(timestamp)!;
+    const point: ComparisonPoint = { timestamp } as ComparisonPoint;
+    ids.forEach(id => {
+      const price = row[id] ?? lastPrices[id] ?? null;
+      lastPrices[id] = price;
+      if (price !== null && basePrices[id] == null) basePrices[id] = price;
+      const base = basePrices[id];
+      point[id] = scale === 'percent' ? (price !== null && base ? (price / base) * 100 : null) : price;
+    });
+    return point;
+  });
+};
+
+/**
+ * Divides one item's price by another's at each point.
+ * @param points Absolute prices from mergeComparisonSeries.
+ */
+export const calculatePriceRatio = (points: ComparisonPoint[], numeratorId: string, denominatorId: string): { timestamp: number; ratio: number | null }[] => {
+  return points.map(point => {
+    const numerator = point[numeratorId];
+    const denominator = point[denominatorId];
+    return {
+      timestamp: point.timestamp,
+      ratio: numerator !== null && numerator !== undefined && denominator ? numerator / denominator : null,
+    };
+  });
+};
+
+export const calculateComparisonStats = (data: TimeseriesData[]): ComparisonStats => {
+  const prices = getPrices(data);
+  const volume = data.reduce((sum, d) => sum + d.highPriceVolume + d.lowPriceVolume, 0);
+  if (prices.length === 0) {
+    return { startPrice: null, endPrice: null, changePercent: null, volatilityPercent: null, volume };
+  }
+
+  const startPrice = prices[0];
+  const endPrice = prices[prices.length - 1];
+  const returns = prices.slice(1).map((price, i) => (price - prices[i]) / prices[i]);
+  let volatilityPercent: number | null = null;
+  if (returns.length > 1) {
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    volatilityPercent = Math.sqrt(variance) * 100;
+  }
+
+  return {
+    startPrice,
+    endPrice,
+    changePercent: ((endPrice - startPrice) / startPrice) * 100,
+    volatilityPercent,
+    volume,
+  };
+};
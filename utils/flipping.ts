@@ -0,0 +1,51 @@
+import type { Item, LatestPrice } from '../types';
+import { calculateGeTax, calculateTaxAdjustedMargin } from './image';
+
+// Prices older than this may no longer be tradeable, e.g. on slow-moving items.
+export const STALE_PRICE_AGE_SECONDS = 30 * 60;
+
+export interface FlipMargin {
+  buyPrice: number; // Instant-sell price, where a buy offer is likely to fill
+  sellPrice: number; // Instant-buy price, where a sell offer is likely to fill
+  spread: number;
+  taxPerItem: number;
+  profitPerItem: number; // Spread minus the GE tax on the sale
+  roiPercent: number;
+}
+
+/**
+ * Calculates the margin for flipping an item at its latest prices.
+ * @returns The margin, or null if either price is missing.
+ */
+export const calculateFlipMargin = (item: Item, latestPrice: LatestPrice | undefined): FlipMargin | null => {
+  const profitPerItem = calculateTaxAdjustedMargin(item.name, latestPrice);
+  if (profitPerItem === null || !latestPrice?.high || !latestPrice?.low) return null;
+  const spread = latestPrice.high - latestPrice.low;
+  return {
+    buyPrice: latestPrice.low,
+    sellPrice: latestPrice.high,
+    spread,
+    taxPerItem: spread - profitPerItem,
+    profitPerItem,
+    roiPercent: (profitPerItem / latestPrice.low) * 100,
+  };
+};
+
+/**
+ * Calculates the profit of flipping a number of items. The tax is worked out on
+ * the whole sale, so it reflects the per-transaction tax cap.
+ */
+export const calculateFlipProfit = (item: Item, margin: FlipMargin, quantity: number): { cost: number; tax: number; profit: number } => {
+  const cost = margin.buyPrice * quantity;
+  const tax = calculateGeTax(item.name, margin.sellPrice, quantity);
+  return { cost, tax, profit: margin.spread * quantity - tax };
+};
+
+/**
+ * Checks whether a price from /latest is too old to rely on.
+ * @param time When the price was last traded at, in unix seconds.
+ * @param nowSeconds The current time in unix seconds.
+ */
+export const isPriceStale = (time: number | null, nowSeconds: number): boolean => {
+  return time === null || nowSeconds - time > STALE_PRICE_AGE_SECONDS;
+};
@@ -1,3 +1,5 @@
+import type { LatestPrice } from '../types';
+
 /**
  * Constructs a URL for a high-resolution item image from the OSRS Wiki.
  * The wiki formats image filenames by capitalizing the first letter and
@@ -144,4 +146,35 @@ export const calculateGeTax = (itemName: string, sellPrice: number, quantity: nu
   const rawTax = Math.floor(totalSaleValue * TAX_RATE);
   
   return Math.min(rawTax, MAX_TAX_AMOUNT);
+};
+
+/**
+ * Calculates the tax-adjusted flip margin: buying at the instant-sell price
+ * and selling at the instant-buy price, minus the GE tax on the sale.
+ * @returns The margin per item, or null if either price is missing.
+ */
+export const calculateTaxAdjustedMargin = (itemName: string, latestPrice: LatestPrice | undefined): number | null => {
+  if (!latestPrice?.high || !latestPrice?.low) return null;
+  return latestPrice.high - latestPrice.low - calculateGeTax(itemName, latestPrice.high, 1);
+};
+
+/**
+ * Calculates how much Grand Exchange tax a transaction avoids compared with
+ * the full rate on its value.
+ * @param itemName The name of the item being sold.
+ * @param sellPrice The price per item.
+ * @param quantity The number of items sold.
+ * @returns The tax not charged because the item is exempt, and because of the tax cap.
+ */
+export const calculateGeTaxSavings = (itemName: string, sellPrice: number, quantity: number): { exempt: number; capped: number } => {
+  if (sellPrice <= MIN_PRICE_FOR_TAX) {
+    return { exempt: 0, capped: 0 };
+  }
+
+  const rawTax = Math.floor(sellPrice * quantity * TAX_RATE);
+  if (TAX_EXEMPT_ITEMS.has(itemName)) {
+    // An exempt item only saves what the tax would have been, which is capped too.
+    return { exempt: Math.min(rawTax, MAX_TAX_AMOUNT), capped: 0 };
+  }
+  return { exempt: 0, capped: Math.max(rawTax - MAX_TAX_AMOUNT, 0) };
 };
\ No newline at end of file
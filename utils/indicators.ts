@@ -0,0 +1,191 @@
+import type { TimeseriesData } from '../types';
+
+// Technical indicators for the price chart. Every function takes one value per
+// chart point and returns one result per point, null where there isn't enough
+// data yet (e.g. the first `period - 1` points of a moving average).
+
+export type IndicatorPane = 'none' | 'rsi' | 'macd';
+
+export interface IndicatorSettings {
+  sma: { enabled: boolean; period: number };
+  ema: { enabled: boolean; period: number };
+  bollinger: { enabled: boolean; period: number; stdDev: number };
+  vwap: { enabled: boolean };
+  pane: IndicatorPane; // Drawn in a separate pane below the price chart
+  rsi: { period: number };
+  macd: { fast: number; slow: number; signal: number };
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: { enabled: false, period: 20 },
+  ema: { enabled: false, period: 12 },
+  bollinger: { enabled: false, period: 20, stdDev: 2 },
+  vwap: { enabled: false },
+  pane: 'none',
+  rsi: { period: 14 },
+  macd: { fast: 12, slow: 26, signal: 9 },
+};
+
+// A chart point with every enabled indicator's value alongside the price.
+export interface IndicatorPoint extends TimeseriesData {
+  sma?: number | null;
+  ema?: number | null;
+  bollingerUpper?: number | null;
+  bollingerMiddle?: number | null;
+  bollingerLower?: number | null;
+  vwap?: number | null;
+  rsi?: number | null;
+  macd?: number | null;
+  macdSignal?: number | null;
+  macdHistogram?: number | null;
+}
+
+type Series = (number | null)[];
+
+// Carries the last known price over gaps, as a window with no trades has no average price.
+const fillGaps = (values: Series): Series => {
+  let last: number | null = null;
+  return values.map(value => {
+    if (value !== null) last = value;
+    return last;
+  });
+};
+
+export const calculateSMA = (values: Series, period: number): Series => {
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+    const window = values.slice(i - period + 1, i + 1);
+    if (window.some(value => value === null)) return null;
+    return (window as number[]).reduce((sum, value) => sum + value, 0) / period;
+  });
+};
+
+/**
+ * Exponential moving average, seeded with the simple average of the first
+ * `period` values.
+ */
+export const calculateEMA = (values: Series, period: number): Series => {
+  const multiplier = 2 / (period + 1);
+  const seed = calculateSMA(values, period);
+  let previous: number | null = null;
+  return values.map((value, i) => {
+    if (value === null) return previous;
+    previous = previous === null ? seed[i] : (value - previous) * multiplier + previous;
+    return previous;
+  });
+};
+
+export const calculateBollingerBands = (values: Series, period: number, stdDev: number): { upper: Series; middle: Series; lower: Series } => {
+  const middle = calculateSMA(values, period);
+  const deviations = middle.map((mean, i) => {
+    if (mean === null) return null;
+    const window = values.slice(i - period + 1, i + 1) as number[];
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    return Math.sqrt(variance);
+  });
+  return {
+    upper: middle.map((mean, i) => mean === null ? null : mean + stdDev * deviations[i]!),
+    middle,
+    lower: middle.map((mean, i) => mean === null ? null : mean - stdDev * deviations[i]!),
+  };
+};
+
+/**
+ * Volume-weighted average price since the start of the data, using each
+ * point's buy and sell averages weighted by their volumes.
+ */
+export const calculateVWAP = (data: TimeseriesData[]): Series => {
+  let totalValue = 0;
+  let totalVolume = 0;
+  return data.map(d => {
+    if (d.avgHighPrice !== null) {
+      totalValue += d.avgHighPrice * d.highPriceVolume;
+      totalVolume += d.highPriceVolume;
+    }
+    if (d.avgLowPrice !== null) {
+      totalValue += d.avgLowPrice * d.lowPriceVolume;
+      totalVolume += d.lowPriceVolume;
+    }
+    return totalVolume > 0 ? totalValue / totalVolume : null;
+  });
+};
+
+/**
+ * Relative strength index with Wilder's smoothing, from 0 to 100.
+ */
+export const calculateRSI = (values: Series, period: number): Series => {
+  const result: Series = values.map(() => null);
+  let averageGain = 0;
+  let averageLoss = 0;
+  let changes = 0;
+
+  for (let i = 1; i < values.length; i++) {
+    const current = values[i];
+    const previous = values[i - 1];
+    if (current === null || previous === null) continue;
+    const change = current - previous;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    changes++;
+
+    if (changes <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (changes < period) continue;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+    result[i] = averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss);
+  }
+  return result;
+};
+
+export const calculateMACD = (values: Series, fast: number, slow: number, signal: number): { macd: Series; signal: Series; histogram: Series } => {
+  const fastEma = calculateEMA(values, fast);
+  const slowEma = calculateEMA(values, slow);
+  const macd = fastEma.map((value, i) => value === null || slowEma[i] === null ? null : value - slowEma[i]!);
+  // The signal line only starts once there are enough MACD values to seed it.
+  const firstMacd = macd.findIndex(value => value !== null);
+  const signalLine: Series = firstMacd === -1
+    ? macd.map(() => null)
+    : [...macd.slice(0, firstMacd), ...calculateEMA(macd.slice(firstMacd), signal)];
+  return {
+    macd,
+    signal: signalLine,
+    histogram: macd.map((value, i) => value === null || signalLine[i] === null ? null : value - signalLine[i]!),
+  };
+};
+
+/**
+ * Adds the values of every enabled indicator to the chart data. Indicators are
+ * calculated on the instant-buy average price, like the chart itself.
+ */
+export const applyIndicators = <T extends TimeseriesData,>(data: T[], settings: IndicatorSettings): (T & IndicatorPoint)[] => {
+  const prices = fillGaps(data.map(d => d.avgHighPrice));
+  const points: (T & IndicatorPoint)[] = data.map(d => ({ ...d }));
+
+  const assign = (key: Exclude<keyof IndicatorPoint, keyof TimeseriesData>, series: Series) => {
+    series.forEach((value, i) => {
+      points[i][key] = value;
+    });
+  };
+
+  if (settings.sma.enabled) assign('sma', calculateSMA(prices, settings.sma.period));
+  if (settings.ema.enabled) assign('ema', calculateEMA(prices, settings.ema.period));
+  if (settings.bollinger.enabled) {
+    const bands = calculateBollingerBands(prices, settings.bollinger.period, settings.bollinger.stdDev);
+    assign('bollingerUpper', bands.upper);
+    assign('bollingerMiddle', bands.middle);
+    assign('bollingerLower', bands.lower);
+  }
+  if (settings.vwap.enabled) assign('vwap', calculateVWAP(data));
+  if (settings.pane === 'rsi') assign('rsi', calculateRSI(prices, settings.rsi.period));
+  if (settings.pane === 'macd') {
+    const macd = calculateMACD(prices, settings.macd.fast, settings.macd.slow, settings.macd.signal);
+    assign('macd', macd.macd);
+    assign('macdSignal', macd.signal);
+    assign('macdHistogram', macd.histogram);
+  }
+  return points;
+};
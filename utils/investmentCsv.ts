@@ -0,0 +1,200 @@
+import type { Investment, Item } from '../types';
+import { parseShorthandPrice, calculateGeTax } from './image';
+
+// An investment read from a spreadsheet, before it belongs to a user.
+export type ImportedInvestment = Omit<Investment, 'id' | 'user_id' | 'game_mode' | 'parent_id' | 'created_at'>;
+
+export type ImportField = 'item' | 'quantity' | 'purchase_price' | 'purchase_date' | 'sell_price' | 'sell_date' | 'tax_paid';
+
+// The index of the CSV column read for each field, or null when it isn't in the file.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportRow {
+  rowNumber: number; // Row in the file, counting the header as row 1 and skipping blank lines
+  investment: ImportedInvestment | null; // Null when the row has errors
+  errors: string[];
+}
+
+export const IMPORT_FIELDS: { id: ImportField; label: string; required: boolean }[] = [
+  { id: 'item', label: 'Item name or ID', required: true },
+  { id: 'quantity', label: 'Quantity', required: true },
+  { id: 'purchase_price', label: 'Purchase price', required: true },
+  { id: 'purchase_date', label: 'Purchase date', required: true },
+  { id: 'sell_price', label: 'Sell price', required: false },
+  { id: 'sell_date', label: 'Sell date', required: false },
+  { id: 'tax_paid', label: 'Tax paid', required: false },
+];
+
+// Header names recognised for each field, compared without case, spaces or punctuation.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  item: ['item', 'itemname', 'name', 'itemid'],
+  quantity: ['quantity', 'qty', 'amount'],
+  purchase_price: ['purchaseprice', 'buyprice', 'buy', 'price', 'cost'],
+  purchase_date: ['purchasedate', 'buydate', 'date', 'bought'],
+  sell_price: ['sellprice', 'sell', 'saleprice'],
+  sell_date: ['selldate', 'saledate', 'sold'],
+  tax_paid: ['taxpaid', 'tax', 'getax'],
+};
+
+const EXPORT_COLUMNS = ['id', 'item_id', 'item_name', 'quantity', 'purchase_price', 'purchase_date', 'sell_price', 'sell_date', 'tax_paid', 'parent_id'] as const;
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const escapeCsvValue = (value: string | number | null): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const withItemName = (investment: Investment, items: Record<string, Item>) => ({
+  ...investment,
+  item_name: items[investment.item_id]?.name ?? null,
+});
+
+/**
+ * Writes investments as CSV, with the item name alongside the ID so the file
+ * reads well in a spreadsheet and can be imported again.
+ */
+export const investmentsToCsv = (investments: Investment[], items: Record<string, Item>): string => {
+  const rows = investments.map(inv => {
+    const row = withItemName(inv, items);
+    return EXPORT_COLUMNS.map(column => escapeCsvValue(row[column])).join(',');
+  });
+  return [EXPORT_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const investmentsToJson = (investments: Investment[], items: Record<string, Item>): string => {
+  return JSON.stringify(investments.map(inv => withItemName(inv, items)), null, 2);
+};
+
+/**
+ * Splits CSV text into rows of values. Quoted values may contain commas,
+ * newlines and doubled quotes. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    row = [];
+    value = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+/**
+ * Picks a column for each field from the header names, for the user to adjust.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalised = headers.map(normaliseHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach(({ id }) => {
+    const index = HEADER_ALIASES[id]
+      .map(alias => normalised.findIndex((header, i) => header === alias && !used.has(i)))
+      .find(i => i !== -1);
+    mapping[id] = index ?? null;
+    if (index !== undefined) used.add(index);
+  });
+  return mapping;
+};
+
+const parseDate = (value: string): string | null => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/**
+ * Checks every data row against the column mapping without saving anything.
+ * Items are matched by name (ignoring case) or by ID, and prices accept
+ * shorthand like "1.2m". Tax left blank on a sold row is calculated.
+ * @param rows Data rows, without the header.
+ */
+export const validateImportRows = (rows: string[][], mapping: ColumnMapping, items: Record<string, Item>): ImportRow[] => {
+  const itemsByName = new Map(Object.values(items).map(item => [item.name.toLowerCase(), item]));
+
+  return rows.map((row, i) => {
+    const errors: string[] = [];
+    const read = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    const itemValue = read('item');
+    const item = itemsByName.get(itemValue.toLowerCase()) ?? (/^\d+$/.test(itemValue) ? items[itemValue] : undefined);
+    if (!itemValue) errors.push('Missing item.');
+    else if (!item) errors.push(`Unknown item "${itemValue}".`);
+
+    const quantity = parseShorthandPrice(read('quantity'));
+    if (isNaN(quantity) || quantity <= 0) errors.push('Quantity must be a positive number.');
+
+    const purchasePrice = parseShorthandPrice(read('purchase_price'));
+    if (isNaN(purchasePrice) || purchasePrice <= 0) errors.push('Purchase price must be a positive number.');
+
+    const purchaseDate = parseDate(read('purchase_date'));
+    if (!purchaseDate) errors.push('Purchase date is not a valid date.');
+
+    const sellPriceValue = read('sell_price');
+    const sellDateValue = read('sell_date');
+    const taxValue = read('tax_paid');
+    let sellPrice: number | null = null;
+    let sellDate: string | null = null;
+    let taxPaid: number | null = null;
+    if (sellPriceValue || sellDateValue) {
+      sellPrice = parseShorthandPrice(sellPriceValue);
+      sellDate = parseDate(sellDateValue);
+      if (isNaN(sellPrice) || sellPrice <= 0) errors.push('Sell price must be a positive number when a sell date is given.');
+      if (!sellDate) errors.push('Sell date must be a valid date when a sell price is given.');
+      taxPaid = taxValue ? parseShorthandPrice(taxValue) : null;
+      if (taxPaid !== null && (isNaN(taxPaid) || taxPaid < 0)) errors.push('Tax paid must be zero or a positive number.');
+    } else if (taxValue) {
+      errors.push('Tax paid is only allowed on sold rows.');
+    }
+
+    if (errors.length > 0 || !item || !purchaseDate) {
+      return { rowNumber: i + 2, investment: null, errors };
+    }
+    return {
+      rowNumber: i + 2,
+      investment: {
+        item_id: item.id,
+        quantity,
+        purchase_price: purchasePrice,
+        purchase_date: purchaseDate,
+        sell_price: sellPrice,
+        sell_date: sellDate,
+        tax_paid: sellPrice !== null ? taxPaid ?? calculateGeTax(item.name, sellPrice, quantity) : null,
+      },
+      errors,
+    };
+  });
+};
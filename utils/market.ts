@@ -0,0 +1,120 @@
+import type { Item, LatestPrice, MarketSnapshot, MarketSnapshotPrice } from '../types';
+
+export type MembershipFilter = 'all' | 'members' | 'f2p';
+
+export interface MarketMoverFilters {
+  membership: MembershipFilter;
+  minVolume: number; // Minimum units traded in the latest window
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export interface MarketMover {
+  item: Item;
+  price: number; // Current price, from the latest instant-buy and instant-sell prices
+  previousPrice: number; // Average price over the window before the latest one
+  changePercent: number;
+  volume: number; // Units traded in the latest window
+  averageVolume: number; // Average units traded per window before the latest one
+  volumeRatio: number | null; // volume / averageVolume, or null without earlier trades
+}
+
+export interface MarketMovers {
+  gainers: MarketMover[];
+  losers: MarketMover[];
+  mostTraded: MarketMover[]; // By gp value traded in the latest window
+  volumeSpikes: MarketMover[];
+}
+
+export const DEFAULT_MARKET_MOVER_FILTERS: MarketMoverFilters = {
+  membership: 'all',
+  minVolume: 100,
+  minPrice: null,
+  maxPrice: null,
+};
+
+const getSnapshotVolume = (price: MarketSnapshotPrice | undefined): number => {
+  return price ? price.highPriceVolume + price.lowPriceVolume : 0;
+};
+
+/**
+ * Gets the volume-weighted average price of one item over a snapshot window.
+ * @returns The average price, or null if the item wasn't traded.
+ */
+export const getSnapshotAveragePrice = (price: MarketSnapshotPrice | undefined): number | null => {
+  if (!price) return null;
+  const { avgHighPrice, avgLowPrice, highPriceVolume, lowPriceVolume } = price;
+  if (avgHighPrice !== null && avgLowPrice !== null) {
+    const volume = highPriceVolume + lowPriceVolume;
+    if (volume === 0) return (avgHighPrice + avgLowPrice) / 2;
+    return (avgHighPrice * highPriceVolume + avgLowPrice * lowPriceVolume) / volume;
+  }
+  return avgHighPrice ?? avgLowPrice;
+};
+
+// The midpoint of the latest prices, falling back to the latest window's average.
+const getCurrentPrice = (latestPrice: LatestPrice | undefined, snapshotPrice: MarketSnapshotPrice | undefined): number | null => {
+  if (latestPrice?.high && latestPrice?.low) return (latestPrice.high + latestPrice.low) / 2;
+  return latestPrice?.high ?? latestPrice?.low ?? getSnapshotAveragePrice(snapshotPrice);
+};
+
+const matchesFilters = (mover: MarketMover, filters: MarketMoverFilters): boolean => {
+  if (filters.membership === 'members' && !mover.item.members) return false;
+  if (filters.membership === 'f2p' && mover.item.members) return false;
+  if (mover.volume < filters.minVolume) return false;
+  if (filters.minPrice !== null && mover.price < filters.minPrice) return false;
+  if (filters.maxPrice !== null && mover.price > filters.maxPrice) return false;
+  return true;
+};
+
+/**
+ * Ranks every item by price change and trade volume across consecutive
+ * market snapshots.
+ * @param snapshots Consecutive snapshots, newest first. The second one is the
+ * reference for price changes; it and any older ones make up the baseline for
+ * volume spikes.
+ * @param limit How many items to keep in each list.
+ */
+export const calculateMarketMovers = (
+  snapshots: MarketSnapshot[],
+  latestPrices: Record<string, LatestPrice>,
+  items: Record<string, Item>,
+  filters: MarketMoverFilters,
+  limit: number,
+): MarketMovers => {
+  const [latest, previous, ...older] = snapshots;
+  if (!latest || !previous) return { gainers: [], losers: [], mostTraded: [], volumeSpikes: [] };
+  const baseline = [previous, ...older];
+
+  const movers: MarketMover[] = [];
+  Object.entries(latest.prices).forEach(([id, snapshotPrice]) => {
+    const item = items[id];
+    const price = getCurrentPrice(latestPrices[id], snapshotPrice);
+    const previousPrice = getSnapshotAveragePrice(previous.prices[id]);
+    if (!item || !price || !previousPrice) return;
+
+    const volume = getSnapshotVolume(snapshotPrice);
+    const averageVolume = baseline.reduce((sum, snapshot) => sum + getSnapshotVolume(snapshot.prices[id]), 0) / baseline.length;
+    const mover: MarketMover = {
+      item,
+      price,
+      previousPrice,
+      changePercent: ((price - previousPrice) / previousPrice) * 100,
+      volume,
+      averageVolume,
+      volumeRatio: averageVolume > 0 ? volume / averageVolume : null,
+    };
+    if (matchesFilters(mover, filters)) movers.push(mover);
+  });
+
+  const top = (candidates: MarketMover[], compare: (a: MarketMover, b: MarketMover) => number) => {
+    return [...candidates].sort(compare).slice(0, limit);
+  };
+
+  return {
+    gainers: top(movers.filter(m => m.changePercent > 0), (a, b) => b.changePercent - a.changePercent),
+    losers: top(movers.filter(m => m.changePercent < 0), (a, b) => a.changePercent - b.changePercent),
+    mostTraded: top(movers, (a, b) => b.volume * b.price - a.volume * a.price),
+    volumeSpikes: top(movers.filter(m => m.volumeRatio !== null && m.volumeRatio > 1), (a, b) => b.volumeRatio! - a.volumeRatio!),
+  };
+};
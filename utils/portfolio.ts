@@ -0,0 +1,180 @@
+import type { Investment, InvestmentSale, Item, LatestPrice } from '../types';
+import { calculateGeTaxSavings } from './image';
+
+// Which open lots a sale of an item is taken from.
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export const COST_BASIS_METHODS: { id: CostBasisMethod; label: string; description: string }[] = [
+  { id: 'fifo', label: 'FIFO', description: 'Sell the oldest lots first' },
+  { id: 'lifo', label: 'LIFO', description: 'Sell the newest lots first' },
+  { id: 'average', label: 'Average', description: 'Sell from every lot in proportion, at the average cost' },
+];
+
+// All open lots of one item, combined.
+export interface Position {
+  itemId: number;
+  lots: Investment[]; // Oldest purchase first
+  quantity: number;
+  totalCost: number;
+  averageCost: number; // Weighted by quantity
+  currentValue: number;
+  unrealisedProfit: number;
+}
+
+export interface LotSale {
+  investment: Investment;
+  sale: InvestmentSale;
+}
+
+const byPurchaseDate = (a: Investment, b: Investment) => new Date(a.purchase_date).getTime() - new Date(b.purchase_date).getTime();
+
+/**
+ * Groups open investments by item, valuing them at the latest instant-buy price.
+ * @param openInvestments Investments that haven't been sold.
+ */
+export const groupPositions = (openInvestments: Investment[], latestPrices: Record<string, LatestPrice>): Position[] => {
+  const lotsByItem = new Map<number, Investment[]>();
+  openInvestments.forEach(inv => {
+    const lots = lotsByItem.get(inv.item_id);
+    if (lots) lots.push(inv);
+    else lotsByItem.set(inv.item_id, [inv]);
+  });
+
+  return [...lotsByItem.entries()].map(([itemId, lots]) => {
+    const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const totalCost = lots.reduce((sum, lot) => sum + lot.purchase_price * lot.quantity, 0);
+    const currentValue = (latestPrices[itemId]?.high ?? 0) * quantity;
+    return {
+      itemId,
+      lots: [...lots].sort(byPurchaseDate),
+      quantity,
+      totalCost,
+      averageCost: quantity > 0 ? totalCost / quantity : 0,
+      currentValue,
+      unrealisedProfit: currentValue - totalCost,
+    };
+  });
+};
+
+/**
+ * Decides how many units to take from each lot when selling part of a position.
+ * FIFO and LIFO empty lots in purchase order; average takes the same share of
+ * every lot, handing the units left over by rounding to the lots with the
+ * largest remainders.
+ * @returns Only the lots that units are taken from.
+ */
+export const allocateSale = (lots: Investment[], quantity: number, method: CostBasisMethod): { investment: Investment; quantity: number }[] => {
+  const totalQuantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const toSell = Math.min(quantity, totalQuantity);
+
+  if (method === 'average') {
+    const shares = lots.map(lot => {
+      const exact = (lot.quantity * toSell) / totalQuantity;
+      return { investment: lot, quantity: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+    let leftOver = toSell - shares.reduce((sum, share) => sum + share.quantity, 0);
+    [...shares].sort((a, b) => b.remainder - a.remainder).forEach(share => {
+      if (leftOver > 0 && share.quantity < share.investment.quantity) {
+        share.quantity++;
+        leftOver--;
+      }
+    });
+    return shares.filter(share => share.quantity > 0).map(({ investment, quantity }) => ({ investment, quantity }));
+  }
+
+  const ordered = [...lots].sort(byPurchaseDate);
+  if (method === 'lifo') ordered.reverse();
+  const allocations: { investment: Investment; quantity: number }[] = [];
+  let remaining = toSell;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ investment: lot, quantity: taken });
+    remaining -= taken;
+  }
+  return allocations;
+};
+
+/**
+ * Turns one sale of a position into a sale for each lot it's taken from. The
+ * tax on the whole sale is shared between the lots by quantity, so the parts
+ * add up to what the GE charged.
+ * @param sale The total quantity, price, date and tax of the sale.
+ */
+export const splitSale = (lots: Investment[], sale: InvestmentSale, method: CostBasisMethod): LotSale[] => {
+  const allocations = allocateSale(lots, sale.quantity, method);
+  const soldQuantity = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+  let taxLeft = sale.tax_paid;
+  return allocations.map((allocation, i) => {
+    const isLast = i === allocations.length - 1;
+    const tax = isLast ? taxLeft : Math.floor((sale.tax_paid * allocation.quantity) / soldQuantity);
+    taxLeft -= tax;
+    return {
+      investment: allocation.investment,
+      sale: { ...sale, quantity: allocation.quantity, tax_paid: tax },
+    };
+  });
+};
+
+/**
+ * Profit on a closed investment after the GE tax paid on the sale.
+ */
+export const calculateRealisedProfit = (investment: Investment): number => {
+  if (investment.sell_price === null) return 0;
+  return (investment.sell_price - investment.purchase_price) * investment.quantity - (investment.tax_paid ?? 0);
+};
+
+export type TaxReportPeriod = 'month' | 'year';
+
+export interface TaxReportRow {
+  taxPaid: number;
+  exemptSavings: number; // Tax not charged because the item is exempt
+  capSavings: number; // Tax not charged because of the 5m cap
+  sales: number;
+}
+
+export interface TaxReport extends TaxReportRow {
+  byPeriod: (TaxReportRow & { period: string })[]; // Newest first; 'YYYY-MM' or 'YYYY'
+  byItem: (TaxReportRow & { itemId: number })[]; // Most tax paid first
+}
+
+const emptyRow = (): TaxReportRow => ({ taxPaid: 0, exemptSavings: 0, capSavings: 0, sales: 0 });
+
+const getPeriod = (isoDate: string, period: TaxReportPeriod): string => {
+  const date = new Date(isoDate);
+  const year = date.getFullYear().toString();
+  return period === 'year' ? year : `${year}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Totals the GE tax paid on closed investments by sell period and by item,
+ * along with the tax avoided on exempt items and by the tax cap.
+ * @param closedInvestments Investments with a sell price and date.
+ */
+export const buildTaxReport = (closedInvestments: Investment[], items: Record<string, Item>, period: TaxReportPeriod): TaxReport => {
+  const total = emptyRow();
+  const byPeriod = new Map<string, TaxReportRow>();
+  const byItem = new Map<number, TaxReportRow>();
+
+  closedInvestments.forEach(inv => {
+    if (inv.sell_price === null || inv.sell_date === null) return;
+    const item = items[inv.item_id];
+    const savings = item ? calculateGeTaxSavings(item.name, inv.sell_price, inv.quantity) : { exempt: 0, capped: 0 };
+    const periodKey = getPeriod(inv.sell_date, period);
+    if (!byPeriod.has(periodKey)) byPeriod.set(periodKey, emptyRow());
+    if (!byItem.has(inv.item_id)) byItem.set(inv.item_id, emptyRow());
+
+    [total, byPeriod.get(periodKey)!, byItem.get(inv.item_id)!].forEach(row => {
+      row.taxPaid += inv.tax_paid ?? 0;
+      row.exemptSavings += savings.exempt;
+      row.capSavings += savings.capped;
+      row.sales++;
+    });
+  });
+
+  return {
+    ...total,
+    byPeriod: [...byPeriod.entries()].map(([key, row]) => ({ ...row, period: key })).sort((a, b) => b.period.localeCompare(a.period)),
+    byItem: [...byItem.entries()].map(([itemId, row]) => ({ ...row, itemId })).sort((a, b) => b.taxPaid - a.taxPaid),
+  };
+};